@@ -1,43 +1,122 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { fetchCandles, fetchExchangeSymbols } from './services/binanceService';
-import { calculateHeatmapData } from './utils/heatmapMath';
-import { Candle, HeatmapSnapshot, Timeframe, HeatmapTheme, CrosshairData } from './types';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { applyStreamCandle, mergeCandles, KlineStream } from './services/marketData';
+import { getMarketDataProvider, EXCHANGES } from './services/exchanges';
+import { createHeatmapWorkerClient, HeatmapWorkerClient, WorkerJob } from './services/heatmapWorkerClient';
+import { clearCandleCache } from './services/candleCache';
+import { applyHeatmapUpdate, getBucketGrid, normalizeLeverageDistribution, DEFAULT_LEVERAGE_DISTRIBUTION, DEFAULT_BUCKET_CONFIG } from './utils/heatmapMath';
+import { createHeatmapGrid } from './utils/heatmapGrid';
+import { detectClusters } from './utils/clusterDetection';
+import { analyzeClusterHits, DEFAULT_HIT_HORIZON } from './utils/clusterStats';
+import { computeImbalanceSeries, DEFAULT_IMBALANCE_CONFIG } from './utils/liquidationImbalance';
+import { getAgeHue } from './utils/ageColors';
+import { buildAggregateCandles, getVenueVolumeScales, DEFAULT_VENUE_MIX } from './utils/venueAggregation';
+import { Candle, ExchangeId, HeatmapGrid, LiquidationEvent, Timeframe, HeatmapTheme, HeatmapSideVisibility, CrosshairData, LeverageTier, LiquidationModel, EntryDistribution, HalfLifeConfig, BucketConfig, HeatmapOptions, HeatmapCalculationResult, HeatmapTierLayer, HeatmapVenueLayer, VenueShare, TierLayerStyles, LiquidationCluster, ClusterHitStats, ImbalanceConfig, CellProvenance, HeatmapColorMode } from './types';
 import LiquidationChart from './components/LiquidationChart';
 import Controls from './components/Controls';
+import ClusterStatsPanel from './components/ClusterStatsPanel';
+import ProvenancePanel from './components/ProvenancePanel';
 import { BarChart3, Activity } from 'lucide-react';
 
+// Streamed candle updates are batched into state at most this often
+const STREAM_FLUSH_MS = 1000;
+// Fallback refresh (missing candles only) while the stream is down
+const REFRESH_MS = 60000;
+
+// Legend rows, low to high density
+const LEGEND_STEPS: { key: keyof HeatmapTheme; label: string; opacity: number }[] = [
+  { key: 'low', label: 'LOW', opacity: 0.8 },
+  { key: 'medium', label: 'MED', opacity: 0.9 },
+  { key: 'high', label: 'HIGH', opacity: 1 },
+  { key: 'extreme', label: 'MAX', opacity: 1 },
+];
+
 function App() {
   const [candles, setCandles] = useState<Candle[]>([]);
-  const [heatmapData, setHeatmapData] = useState<HeatmapSnapshot[]>([]);
+  const [heatmapData, setHeatmapData] = useState<HeatmapGrid | null>(null);
+  const [liquidationEvents, setLiquidationEvents] = useState<LiquidationEvent[]>([]);
   const [globalMaxDensity, setGlobalMaxDensity] = useState<number>(1);
-  const [bucketSize, setBucketSize] = useState<number>(10);
   
   // UI State
+  const [exchange, setExchange] = useState<ExchangeId>('binance');
   const [symbol, setSymbol] = useState<string>('BTCUSDT');
   const [allSymbols, setAllSymbols] = useState<string[]>([]);
   const [timeframe, setTimeframe] = useState<Timeframe>('1d');
   const [history, setHistory] = useState<string>('1y'); 
   const [leverage, setLeverage] = useState<number>(3);
+  const [leverageMix, setLeverageMix] = useState<LeverageTier[]>(DEFAULT_LEVERAGE_DISTRIBUTION);
+  const [useLeverageMix, setUseLeverageMix] = useState<boolean>(false);
+  // Per-leverage layers drawn instead of the blended heatmap
+  const [useTierLayers, setUseTierLayers] = useState<boolean>(false);
+  const [tierLayerStyles, setTierLayerStyles] = useState<TierLayerStyles>({});
+  const [tierLayers, setTierLayers] = useState<HeatmapTierLayer[]>([]);
+  const [venueMix, setVenueMix] = useState<VenueShare[]>(DEFAULT_VENUE_MIX);
+  const [useVenueMix, setUseVenueMix] = useState<boolean>(false);
+  const [venueCandles, setVenueCandles] = useState<Partial<Record<ExchangeId, Candle[]>>>({});
+  // Per symbol, the venues that don't trade it
+  const [unlistedVenues, setUnlistedVenues] = useState<Record<string, ExchangeId[]>>({});
+  const [venueLayers, setVenueLayers] = useState<HeatmapVenueLayer[]>([]);
+  const [liquidationModel, setLiquidationModel] = useState<LiquidationModel>('naive');
+  const [entryDistribution, setEntryDistribution] = useState<EntryDistribution>('close');
+  const [takerSplit, setTakerSplit] = useState<boolean>(false);
+  const [halfLife, setHalfLife] = useState<HalfLifeConfig>({ mode: 'off', value: 200 });
+  const [bucketConfig, setBucketConfig] = useState<BucketConfig>(DEFAULT_BUCKET_CONFIG);
+  const [tickSizes, setTickSizes] = useState<{ [symbol: string]: number }>({});
+  const [imbalanceConfig, setImbalanceConfig] = useState<ImbalanceConfig>(DEFAULT_IMBALANCE_CONFIG);
   
   // Visualization Settings
   const [noiseFilter, setNoiseFilter] = useState<number>(0.10); 
   const [sensitivity, setSensitivity] = useState<number>(1.5); 
   const [cloudMode, setCloudMode] = useState<boolean>(true); 
   const [localNormalization, setLocalNormalization] = useState<boolean>(true);
+  const [showClusters, setShowClusters] = useState<boolean>(true);
+  const [clusters, setClusters] = useState<LiquidationCluster[]>([]);
+  const [colorMode, setColorMode] = useState<HeatmapColorMode>('density');
+  const [showDiff, setShowDiff] = useState<boolean>(false);
+  const [diffBars, setDiffBars] = useState<number>(10);
+  const [showProjection, setShowProjection] = useState<boolean>(false);
+  const [projectionBars, setProjectionBars] = useState<number>(30);
+  const [showStatsPanel, setShowStatsPanel] = useState<boolean>(false);
+  const [hitHorizon, setHitHorizon] = useState<number>(DEFAULT_HIT_HORIZON);
+  const [clusterStats, setClusterStats] = useState<ClusterHitStats[]>([]);
+  const [provenance, setProvenance] = useState<CellProvenance | null>(null);
   
   // Hover State
   const [hoveredStats, setHoveredStats] = useState<CrosshairData | null>(null);
 
-  // Theme matched to Mesh Reference
-  const [theme, setTheme] = useState<HeatmapTheme>({
-      low: '#1e3a8a',
-      medium: '#22c55e',
+  // Separate ramps per side, warm for long liquidations (below price), cool for shorts (above)
+  const [longTheme, setLongTheme] = useState<HeatmapTheme>({
+      low: '#3b0764',
+      medium: '#be185d',
       high: '#f97316',
       extreme: '#dc2626'
   });
+  const [shortTheme, setShortTheme] = useState<HeatmapTheme>({
+      low: '#1e3a8a',
+      medium: '#0891b2',
+      high: '#22c55e',
+      extreme: '#a3e635'
+  });
+  const [visibleSides, setVisibleSides] = useState<HeatmapSideVisibility>({ long: true, short: true });
 
   const [isCalculating, setIsCalculating] = useState<boolean>(false);
 
+  const [calcProgress, setCalcProgress] = useState<number | null>(null);
+
+  // Candle loading and the heatmap engine live in a worker. The engine is kept between candle
+  // refreshes and only rebuilt when the data source or a model setting changes, so the
+  // periodic refetch only recomputes the newest candles.
+  const workerRef = useRef<HeatmapWorkerClient | null>(null);
+  // Bumped whenever the worker engine may be out of sync with heatmapResultRef (new source, cancelled job)
+  const engineGenerationRef = useRef<number>(0);
+  const engineKeyRef = useRef<string>('');
+  const bucketSizeRef = useRef<number>(10);
+  const venueScalesRef = useRef<number[]>([]);
+  // True while a heatmap job runs; streamed candles wait so they don't cancel it
+  const computeBusyRef = useRef<boolean>(false);
+  // Latest cell inspection; a newer click supersedes it
+  const provenanceJobRef = useRef<WorkerJob<CellProvenance | null> | null>(null);
+  const heatmapResultRef = useRef<HeatmapCalculationResult>({ grid: createHeatmapGrid(10, 'linear', 0, 0), tierLayers: [], venueLayers: [], liquidations: [], globalMaxDensity: 0 });
+
   // --- DYNAMIC LIMIT CALCULATION ---
   const getMinutesFromTimeframe = (tf: Timeframe): number => {
       const mapping: {[key: string]: number} = {
@@ -60,98 +139,412 @@ function App() {
       return mapping[hist] || 525600;
   };
 
-  // Load available symbols on mount
   useEffect(() => {
+    workerRef.current = createHeatmapWorkerClient();
+    return () => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+    };
+  }, []);
+
+  const provider = getMarketDataProvider(exchange);
+
+  // Load the exchange's symbols; a symbol it does not list falls back to BTCUSDT
+  useEffect(() => {
+    let isMounted = true;
     const loadSymbols = async () => {
-        const symbols = await fetchExchangeSymbols();
+        const symbols = await provider.fetchSymbols();
+        if (!isMounted) return;
         if (symbols && symbols.length > 0) {
             setAllSymbols(symbols);
+            setSymbol(current => symbols.includes(current) || !symbols.includes('BTCUSDT') ? current : 'BTCUSDT');
         }
+        const sizes = await provider.fetchTickSizes();
+        if (isMounted) setTickSizes(sizes);
     };
     loadSymbols();
-  }, []);
+    return () => { isMounted = false; };
+  }, [provider]);
 
+  const changeExchange = (id: ExchangeId) => {
+    setExchange(id);
+    if (!getMarketDataProvider(id).timeframes.includes(timeframe)) setTimeframe('1d');
+  };
+
+  // Which venues trade the symbol; until known, every venue is assumed to
   useEffect(() => {
+    if (!useVenueMix || unlistedVenues[symbol]) return;
     let isMounted = true;
-    let timeoutId: number;
+    Promise.all(EXCHANGES.map(async e => {
+        try {
+            return await getMarketDataProvider(e.id).listsSymbol(symbol) ? null : e.id;
+        } catch (error) {
+            // Unknown: keep the venue, its candle load reports the failure
+            return null;
+        }
+    })).then(unlisted => {
+        if (isMounted) setUnlistedVenues(prev => ({ ...prev, [symbol]: unlisted.filter((id): id is ExchangeId => id !== null) }));
+    });
+    return () => { isMounted = false; };
+  }, [useVenueMix, symbol, unlistedVenues]);
 
-    const loadData = async () => {
-      if (!isMounted) return;
-      setIsCalculating(true);
-      
-      try {
-        const tfMins = getMinutesFromTimeframe(timeframe);
-        const histMins = getMinutesFromHistory(history);
-        let requiredCandles = Math.ceil(histMins / tfMins);
-        const limit = Math.max(20, requiredCandles);
-        
-        const data = await fetchCandles(symbol, timeframe, limit);
-        
-        if (isMounted) {
-            setCandles(data);
+  // Venues offering the selected timeframe and symbol
+  const venueMixExchanges = useMemo(
+    () => EXCHANGES
+      .filter(e => getMarketDataProvider(e.id).timeframes.includes(timeframe) && !unlistedVenues[symbol]?.includes(e.id))
+      .map(e => e.id),
+    [timeframe, symbol, unlistedVenues]
+  );
+
+  // Venues of the aggregated heatmap: a share above zero and the selected timeframe and symbol on offer
+  const aggregateVenues = useMemo(
+    () => useVenueMix
+      ? venueMix.filter(v => v.weight > 0 && venueMixExchanges.includes(v.exchange))
+      : [],
+    [useVenueMix, venueMix, venueMixExchanges]
+  );
+  // Loaded next to the selected exchange, which stays the price source of the chart
+  const extraVenueKey = aggregateVenues.filter(v => v.exchange !== exchange).map(v => v.exchange).join(',');
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const tfMins = getMinutesFromTimeframe(timeframe);
+    const histMins = getMinutesFromHistory(history);
+    const limit = Math.max(20, Math.ceil(histMins / tfMins));
+
+    // Keeps one venue's history current and publishes it to state; only the chart's venue shows loading
+    const createFeed = (id: ExchangeId, publish: (candles: Candle[]) => void, isPrimary: boolean) => {
+      const feedProvider = getMarketDataProvider(id);
+      let loadJob: WorkerJob<Candle[]> | null = null;
+      let stream: KlineStream | null = null;
+      // Working copy the stream writes into; flushed to state in batches
+      let liveCandles: Candle[] | null = null;
+      let dirty = false;
+      let streamOpen = false;
+      // Set when a load was requested while another one ran
+      let reloadPending = false;
+
+      // Full backfill on a new source; afterwards only the candles from the last one we hold onwards
+      const loadData = async () => {
+        if (!isMounted || !workerRef.current) return;
+        if (loadJob) {
+          reloadPending = true;
+          return;
         }
-      } catch (error) {
-        console.error("Error loading market data", error);
-      } finally {
-        if (isMounted) {
-            setIsCalculating(false);
-            timeoutId = window.setTimeout(loadData, 60000);
+        const held = liveCandles;
+        const incremental = held !== null && held.length > 0;
+        if (isPrimary && !incremental) setIsCalculating(true);
+
+        try {
+          // Download and kline parsing both happen inside the worker
+          const startTime = incremental ? held[held.length - 1].time : undefined;
+          loadJob = workerRef.current.loadCandles(id, symbol, timeframe, limit, startTime);
+          const data = await loadJob.promise;
+
+          if (isMounted && data) {
+              if (incremental) {
+                  // Merged into the working copy (which the stream may have advanced meanwhile) and flushed with it
+                  liveCandles = mergeCandles(liveCandles!, data, limit);
+                  dirty = true;
+              } else {
+                  liveCandles = data.slice();
+                  dirty = false;
+                  publish(data);
+              }
+              if (!stream) startStream();
+          }
+        } catch (error) {
+          console.error(`Error loading ${feedProvider.label} market data`, error);
+        } finally {
+          loadJob = null;
+          if (isMounted && isPrimary && !incremental) {
+              setIsCalculating(false);
+          }
+          if (isMounted && reloadPending) {
+              reloadPending = false;
+              loadData();
+          }
         }
-      }
+      };
+
+      // Exchanges without a kline stream are polled through the refresh interval instead
+      const startStream = () => {
+        if (!feedProvider.subscribeKlines) return;
+        stream = feedProvider.subscribeKlines(symbol, timeframe, {
+          onCandle: candle => {
+            if (liveCandles && applyStreamCandle(liveCandles, candle)) dirty = true;
+          },
+          onStatus: status => {
+            streamOpen = status === 'open';
+            // The stream only carries candles from now on: refetch from the last held candle to
+            // cover the gap since the REST snapshot (or since the connection dropped)
+            if (status === 'open') loadData();
+          }
+        });
+      };
+
+      return {
+        loadData,
+        flush: () => {
+          if (!dirty || !liveCandles) return;
+          dirty = false;
+          publish(liveCandles.slice());
+        },
+        refresh: () => {
+          if (!streamOpen) loadData();
+        },
+        close: () => {
+          loadJob?.cancel();
+          stream?.close();
+        }
+      };
     };
 
-    loadData();
+    const extraVenues = extraVenueKey ? extraVenueKey.split(',') as ExchangeId[] : [];
+    const feeds = [
+      createFeed(exchange, setCandles, true),
+      ...extraVenues.map(id => createFeed(id, data => setVenueCandles(prev => ({ ...prev, [id]: data })), false))
+    ];
+
+    const flushId = window.setInterval(() => {
+      if (computeBusyRef.current) return;
+      feeds.forEach(feed => feed.flush());
+    }, STREAM_FLUSH_MS);
+
+    const refreshId = window.setInterval(() => {
+      feeds.forEach(feed => feed.refresh());
+    }, REFRESH_MS);
+
+    // New source: drop the previous candles and engine so nothing resumes across symbols or exchanges
+    setCandles([]);
+    setVenueCandles({});
+    provenanceJobRef.current?.cancel();
+    setProvenance(null);
+    engineGenerationRef.current++;
+    feeds.forEach(feed => feed.loadData());
 
     return () => {
         isMounted = false;
-        window.clearTimeout(timeoutId);
+        feeds.forEach(feed => feed.close());
+        window.clearInterval(flushId);
+        window.clearInterval(refreshId);
     };
-  }, [timeframe, symbol, history]); 
+  }, [exchange, timeframe, symbol, history, extraVenueKey]);
+
+  // Candles the heatmap is built from: the chart's own, or aggregated across venues on its times
+  const heatmapCandles = useMemo(() => {
+    if (aggregateVenues.length === 0) return candles;
+    const series = aggregateVenues.map(v => v.exchange === exchange ? candles : venueCandles[v.exchange] || []);
+    return buildAggregateCandles(candles, series);
+  }, [candles, venueCandles, aggregateVenues, exchange]);
 
   // Heatmap Calculation Effect
   useEffect(() => {
-    if (candles.length === 0) return;
+    if (heatmapCandles.length === 0) return;
+
+    const worker = workerRef.current;
+    if (!worker) return;
 
     setIsCalculating(true);
-    
-    const timer = setTimeout(() => {
-      const currentPrice = candles[candles.length - 1].close;
-      const calcBucketSize = currentPrice * 0.0025; 
-      setBucketSize(calcBucketSize);
+    setCalcProgress(0);
 
-      const { snapshots, globalMaxDensity } = calculateHeatmapData(candles, leverage, calcBucketSize);
-      
-      setHeatmapData(snapshots);
-      setGlobalMaxDensity(globalMaxDensity);
-      setIsCalculating(false);
-    }, 50);
+    // Either the weighted distribution or a single tier holding all open interest
+    const leverageTiers: LeverageTier[] = useLeverageMix ? leverageMix : [{ leverage, weight: 1 }];
+    const tickSize = bucketConfig.mode === 'tick' ? tickSizes[symbol] : undefined;
+    const bucketGrid = getBucketGrid(bucketConfig, heatmapCandles[heatmapCandles.length - 1].close, tickSize);
+    const options: HeatmapOptions = {
+        symbol,
+        liquidationModel,
+        entryDistribution,
+        takerSplit,
+        halfLife,
+        intervalSeconds: getMinutesFromTimeframe(timeframe) * 60,
+        bucketScale: bucketGrid.scale,
+        tierLayers: useTierLayers,
+        levelAges: colorMode === 'age'
+    };
+    // A venue whose history arrives later changes every column, so it rebuilds the engine
+    const venueKey = aggregateVenues.map(v => [v.exchange, v.weight, v.exchange === exchange || !!venueCandles[v.exchange]?.length]);
+    const engineKey = JSON.stringify({ leverageTiers, options, bucketConfig, tickSize, venueKey, generation: engineGenerationRef.current });
 
-    return () => clearTimeout(timer);
-  }, [candles, leverage]);
+    if (engineKeyRef.current !== engineKey) {
+        // Bucket size is frozen per engine so incremental columns stay on the same grid
+        bucketSizeRef.current = bucketGrid.bucketSize;
+        // Volume normalization likewise, so earlier columns keep their weights
+        venueScalesRef.current = getVenueVolumeScales(heatmapCandles, aggregateVenues.length);
+        engineKeyRef.current = engineKey;
+    }
+    const jobBucketSize = bucketSizeRef.current;
+    if (aggregateVenues.length > 0) {
+        const totalWeight = aggregateVenues.reduce((sum, v) => sum + v.weight, 0);
+        options.venues = aggregateVenues.map((v, i) => ({
+            exchange: v.exchange,
+            share: v.weight / totalWeight,
+            volumeScale: venueScalesRef.current[i]
+        }));
+    }
+
+    let finished = false;
+    const job = worker.computeHeatmap(heatmapCandles, leverageTiers, jobBucketSize, options, engineKey, setCalcProgress);
+    computeBusyRef.current = true;
+
+    job.promise
+      .then(update => {
+        finished = true;
+        // A cancelled job already released the flag in the effect cleanup
+        if (!update) return;
+        computeBusyRef.current = false;
+
+        const result = applyHeatmapUpdate(heatmapResultRef.current, update);
+        heatmapResultRef.current = result;
+
+        setHeatmapData(result.grid);
+        setTierLayers(result.tierLayers);
+        setVenueLayers(result.venueLayers);
+        setClusters(detectClusters(result.grid, result.grid.length - 1));
+        setLiquidationEvents(result.liquidations);
+        setGlobalMaxDensity(result.globalMaxDensity);
+        setIsCalculating(false);
+        setCalcProgress(null);
+      })
+      .catch(error => {
+        finished = true;
+        computeBusyRef.current = false;
+        console.error("Heatmap calculation failed", error);
+        setIsCalculating(false);
+        setCalcProgress(null);
+      });
+
+    return () => {
+        if (!finished) {
+            // The worker discards a half-applied engine; make sure the next job starts fresh
+            job.cancel();
+            computeBusyRef.current = false;
+            engineGenerationRef.current++;
+        }
+    };
+  }, [heatmapCandles, leverage, leverageMix, useLeverageMix, liquidationModel, entryDistribution, takerSplit, halfLife, bucketConfig, tickSizes, useTierLayers, colorMode]);
+
+  const imbalance = useMemo(
+    () => heatmapData ? computeImbalanceSeries(heatmapData, candles, imbalanceConfig) : [],
+    [heatmapData, candles, imbalanceConfig]
+  );
+
+  // Analyzes the heatmap currently on screen; rows of an earlier run with the same setting are replaced
+  const runClusterStats = () => {
+    const result = heatmapResultRef.current;
+    if (result.grid.length === 0) return;
+
+    // The grid may start later than the candles when old columns were dropped
+    const first = candles.findIndex(c => c.time === result.grid.times[0]);
+    if (first === -1) return;
+    const aligned = candles.slice(first);
+
+    const setting = `${provider.label} ${symbol} ${timeframe} · ${useLeverageMix ? 'Mix' : `${leverage}x`} · ${bucketConfig.mode} ${bucketConfig.value}`;
+    const rows = analyzeClusterHits(result.grid, aligned, setting, hitHorizon);
+    result.tierLayers.forEach(layer => {
+        rows.push(...analyzeClusterHits(layer.grid, aligned, `${setting} · ${layer.leverage}x layer`, hitHorizon));
+    });
+
+    setClusterStats(prev => [
+        ...prev.filter(row => !rows.some(r => r.label === row.label && r.horizon === row.horizon)),
+        ...rows
+    ]);
+  };
+
+  // Breaks a clicked heatmap cell down into the levels that built it. The worker replays the
+  // history and settings its engine holds, so a long undecayed replay stays off the main thread.
+  const inspectCell = useCallback((column: number, price: number) => {
+    const worker = workerRef.current;
+    const grid = heatmapResultRef.current.grid;
+    if (!worker || column < 0 || column >= grid.length) return;
+
+    provenanceJobRef.current?.cancel();
+    const job = worker.traceProvenance(engineKeyRef.current, grid.times[column], price);
+    provenanceJobRef.current = job;
+    job.promise
+      .then(result => {
+        if (provenanceJobRef.current === job) setProvenance(result);
+      })
+      .catch(error => console.error("Cell inspection failed", error));
+  }, []);
 
   return (
     <div className="flex flex-col h-screen w-full bg-[#050505] text-gray-300 overflow-hidden selection:bg-blue-500/30">
       
       <Controls 
+        exchange={exchange}
+        setExchange={changeExchange}
+        exchanges={EXCHANGES}
+        supportedTimeframes={provider.timeframes}
+        venueMix={venueMix}
+        setVenueMix={setVenueMix}
+        useVenueMix={useVenueMix}
+        setUseVenueMix={setUseVenueMix}
+        venueMixExchanges={venueMixExchanges}
         timeframe={timeframe}
         setTimeframe={setTimeframe}
         history={history}
         setHistory={setHistory}
+        onClearCache={() => {
+            clearCandleCache().catch(error => console.error("Failed to clear candle cache", error));
+        }}
         leverage={leverage}
         setLeverage={setLeverage}
+        leverageMix={leverageMix}
+        setLeverageMix={setLeverageMix}
+        useLeverageMix={useLeverageMix}
+        tierLayerLeverages={useLeverageMix ? normalizeLeverageDistribution(leverageMix).map(t => t.leverage) : [leverage]}
+        tierLayerStyles={tierLayerStyles}
+        setTierLayerStyles={setTierLayerStyles}
+        useTierLayers={useTierLayers}
+        setUseTierLayers={setUseTierLayers}
+        setUseLeverageMix={setUseLeverageMix}
+        liquidationModel={liquidationModel}
+        setLiquidationModel={setLiquidationModel}
+        entryDistribution={entryDistribution}
+        setEntryDistribution={setEntryDistribution}
+        takerSplit={takerSplit}
+        setTakerSplit={setTakerSplit}
+        halfLife={halfLife}
+        setHalfLife={setHalfLife}
+        bucketConfig={bucketConfig}
+        setBucketConfig={setBucketConfig}
+        imbalanceConfig={imbalanceConfig}
+        setImbalanceConfig={setImbalanceConfig}
         noiseFilter={noiseFilter}
         setNoiseFilter={setNoiseFilter}
         sensitivity={sensitivity}
         setSensitivity={setSensitivity}
-        theme={theme}
-        setTheme={setTheme}
+        longTheme={longTheme}
+        setLongTheme={setLongTheme}
+        shortTheme={shortTheme}
+        setShortTheme={setShortTheme}
+        visibleSides={visibleSides}
+        setVisibleSides={setVisibleSides}
         symbol={symbol}
         setSymbol={setSymbol}
         cloudMode={cloudMode}
         setCloudMode={setCloudMode}
         localNormalization={localNormalization}
         setLocalNormalization={setLocalNormalization}
+        showClusters={showClusters}
+        setShowClusters={setShowClusters}
+        colorMode={colorMode}
+        setColorMode={setColorMode}
+        showDiff={showDiff}
+        setShowDiff={setShowDiff}
+        diffBars={diffBars}
+        setDiffBars={setDiffBars}
+        showProjection={showProjection}
+        setShowProjection={setShowProjection}
+        projectionBars={projectionBars}
+        setProjectionBars={setProjectionBars}
+        showStatsPanel={showStatsPanel}
+        setShowStatsPanel={setShowStatsPanel}
         isCalculating={isCalculating}
+        calcProgress={calcProgress}
         allSymbols={allSymbols}
       />
 
@@ -159,16 +552,48 @@ function App() {
           <LiquidationChart 
             candles={candles} 
             heatmapData={heatmapData}
+            tierLayers={useTierLayers ? tierLayers : []}
+            venueLayers={venueLayers}
+            tierLayerStyles={tierLayerStyles}
+            liquidationEvents={liquidationEvents}
             globalMaxDensity={globalMaxDensity}
             noiseFilter={noiseFilter}
             sensitivity={sensitivity}
-            theme={theme}
+            longTheme={longTheme}
+            shortTheme={shortTheme}
+            visibleSides={visibleSides}
             cloudMode={cloudMode}
             localNormalization={localNormalization}
+            clusters={showClusters ? clusters : []}
+            imbalance={imbalance}
+            projectionBars={showProjection ? projectionBars : 0}
+            diffBars={showDiff ? diffBars : 0}
+            colorMode={colorMode}
             timeframe={timeframe}
-            bucketSize={bucketSize}
             onCrosshairMove={setHoveredStats}
+            provenance={provenance}
+            onCellClick={inspectCell}
           />
+
+          {provenance && (
+              <div className="absolute bottom-10 left-6 z-30">
+                  <ProvenancePanel provenance={provenance} onClose={() => setProvenance(null)} />
+              </div>
+          )}
+
+          {showStatsPanel && (
+              <div className="absolute top-4 left-6 z-30">
+                  <ClusterStatsPanel
+                    rows={clusterStats}
+                    horizon={hitHorizon}
+                    setHorizon={setHitHorizon}
+                    onRun={runClusterStats}
+                    onClear={() => setClusterStats([])}
+                    onClose={() => setShowStatsPanel(false)}
+                    canRun={!isCalculating && heatmapData !== null && heatmapData.length > 0}
+                  />
+              </div>
+          )}
           
           <div className="absolute bottom-10 right-24 z-20 pointer-events-none flex flex-col gap-4 items-end">
              
@@ -187,6 +612,23 @@ function App() {
                             <span className="text-gray-500">Intensity</span>
                             <span className="font-mono text-blue-400">{hoveredStats.density.toFixed(1)}</span>
                         </div>
+                        <div className="flex justify-between text-xs">
+                            <span className="text-gray-500">Longs / Shorts</span>
+                            <span className="font-mono">
+                                <span style={{ color: longTheme.extreme }}>{hoveredStats.longDensity.toFixed(1)}</span>
+                                <span className="text-gray-600"> / </span>
+                                <span style={{ color: shortTheme.extreme }}>{hoveredStats.shortDensity.toFixed(1)}</span>
+                            </span>
+                        </div>
+                        {hoveredStats.venues && hoveredStats.venues.map(v => (
+                            <div key={v.exchange} className="flex justify-between text-xs">
+                                <span className="text-gray-500">{EXCHANGES.find(e => e.id === v.exchange)?.label ?? v.exchange}</span>
+                                <span className="font-mono text-gray-300">
+                                    {v.density.toFixed(1)}
+                                    <span className="text-gray-600"> · {(v.density / hoveredStats.density * 100).toFixed(0)}%</span>
+                                </span>
+                            </div>
+                        ))}
                         <div className="w-full h-1 bg-gray-800 rounded-full mt-1 overflow-hidden">
                             <div 
                                 className="h-full bg-gradient-to-r from-blue-500 to-red-500" 
@@ -205,29 +647,43 @@ function App() {
                     <BarChart3 size={12} className="text-gray-500" />
                 </div>
                 
+                <div className="flex items-center justify-end gap-2 mb-2 text-[9px] font-bold font-mono tracking-widest">
+                    <span className={`w-8 text-center ${visibleSides.long ? 'text-gray-400' : 'text-gray-700 line-through'}`}>LONG</span>
+                    <span className={`w-8 text-center ${visibleSides.short ? 'text-gray-400' : 'text-gray-700 line-through'}`}>SHORT</span>
+                </div>
+
                 <div className="flex flex-col gap-3">
-                    <div className="flex items-center justify-between">
-                        <span className="text-[10px] text-gray-600 font-mono">LOW</span>
-                        <div className="w-16 h-1 rounded-sm" style={{ backgroundColor: theme.low, opacity: 0.8 }}></div>
-                    </div>
-                    <div className="flex items-center justify-between">
-                        <span className="text-[10px] text-gray-600 font-mono">MED</span>
-                        <div className="w-16 h-1 rounded-sm" style={{ backgroundColor: theme.medium, opacity: 0.9 }}></div>
-                    </div>
-                     <div className="flex items-center justify-between">
-                        <span className="text-[10px] text-gray-600 font-mono">HIGH</span>
-                        <div className="w-16 h-1 rounded-sm" style={{ backgroundColor: theme.high, opacity: 1 }}></div>
-                    </div>
-                    <div className="flex items-center justify-between">
-                        <span className="text-[10px] text-gray-600 font-mono text-red-400">MAX</span>
-                        <div className="w-16 h-1 rounded-sm shadow-[0_0_8px_rgba(220,38,38,0.5)]" style={{ backgroundColor: theme.extreme }}></div>
-                    </div>
+                    {LEGEND_STEPS.map(({ key, label, opacity }) => (
+                        <div key={key} className="flex items-center justify-between gap-4">
+                            <span className={`text-[10px] font-mono ${key === 'extreme' ? 'text-red-400' : 'text-gray-600'}`}>{label}</span>
+                            <div className="flex items-center gap-2">
+                                <div className="w-8 h-1 rounded-sm" style={{ backgroundColor: longTheme[key], opacity: visibleSides.long ? opacity : 0.15 }}></div>
+                                <div className="w-8 h-1 rounded-sm" style={{ backgroundColor: shortTheme[key], opacity: visibleSides.short ? opacity : 0.15 }}></div>
+                            </div>
+                        </div>
+                    ))}
                 </div>
+
+                {colorMode === 'age' && (
+                    <div className="flex flex-col gap-1 mt-4 pt-2 border-t border-white/5">
+                        <div
+                            className="h-1 rounded-sm"
+                            style={{ background: `linear-gradient(to right, hsl(${getAgeHue(0)},90%,55%), hsl(${getAgeHue(0.5)},90%,55%), hsl(${getAgeHue(1)},90%,55%))` }}
+                        ></div>
+                        <div className="flex justify-between text-[9px] font-mono text-gray-600">
+                            <span>FRESH</span>
+                            <span>LEVEL AGE</span>
+                            <span>STALE</span>
+                        </div>
+                    </div>
+                )}
              </div>
           </div>
 
           <div className="absolute bottom-4 left-6 z-20 pointer-events-none opacity-30">
-              <span className="text-[10px] font-mono text-gray-500">BINANCE FUTURES // PERPETUAL DATA</span>
+              <span className="text-[10px] font-mono text-gray-500">{aggregateVenues.length > 0
+                  ? `AGGREGATED ${aggregateVenues.map(v => v.exchange.toUpperCase()).join(' + ')} // PERPETUAL DATA`
+                  : `${provider.label.toUpperCase()} FUTURES // PERPETUAL DATA`}</span>
           </div>
       </div>
     </div>
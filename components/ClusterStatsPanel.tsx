@@ -0,0 +1,128 @@
+import React from 'react';
+import { Target, Download, Play, Trash2, X } from 'lucide-react';
+import { ClusterHitStats } from '../types';
+import { clusterStatsToCsv } from '../utils/clusterStats';
+
+interface ClusterStatsPanelProps {
+    rows: ClusterHitStats[];
+    horizon: number;
+    setHorizon: (h: number) => void;
+    onRun: () => void;
+    onClear: () => void;
+    onClose: () => void;
+    canRun: boolean;
+}
+
+const downloadCsv = (rows: ClusterHitStats[]) => {
+    const blob = new Blob([clusterStatsToCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cluster-hit-stats-${Date.now()}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const ClusterStatsPanel: React.FC<ClusterStatsPanelProps> = ({
+    rows,
+    horizon,
+    setHorizon,
+    onRun,
+    onClear,
+    onClose,
+    canRun
+}) => {
+    return (
+        <div className="bg-[#050505]/90 backdrop-blur-md p-4 rounded border border-white/10 shadow-2xl w-[560px] max-w-[90vw] flex flex-col gap-3">
+            <div className="flex items-center justify-between border-b border-white/5 pb-2">
+                <div className="flex items-center gap-2">
+                    <Target size={12} className="text-yellow-400" />
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-[0.2em]">Cluster Hit Rate</span>
+                </div>
+                <button onClick={onClose} className="text-gray-600 hover:text-gray-300 transition-colors" title="Close">
+                    <X size={14} />
+                </button>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <span className="text-[10px] text-gray-500 uppercase tracking-wider">Horizon</span>
+                <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={horizon}
+                    onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (value > 0) setHorizon(value);
+                    }}
+                    className="px-2 py-1 bg-white/5 border border-white/5 hover:border-white/10 text-xs text-gray-200 rounded focus:outline-none font-mono w-16"
+                />
+                <span className="text-[10px] text-gray-600">bars</span>
+
+                <div className="flex-1" />
+
+                <button
+                    onClick={onRun}
+                    disabled={!canRun}
+                    className="flex items-center gap-1 px-2 py-1 rounded border border-yellow-500/40 bg-yellow-500/10 text-yellow-400 text-[10px] uppercase tracking-wider disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Analyze the current heatmap"
+                >
+                    <Play size={10} /> Run
+                </button>
+                <button
+                    onClick={() => downloadCsv(rows)}
+                    disabled={rows.length === 0}
+                    className="flex items-center gap-1 px-2 py-1 rounded border border-white/10 bg-white/5 text-gray-300 text-[10px] uppercase tracking-wider disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Export CSV"
+                >
+                    <Download size={10} /> CSV
+                </button>
+                <button
+                    onClick={onClear}
+                    disabled={rows.length === 0}
+                    className="p-1 rounded text-gray-600 hover:text-red-400 transition-colors disabled:opacity-30"
+                    title="Clear Results"
+                >
+                    <Trash2 size={12} />
+                </button>
+            </div>
+
+            {rows.length === 0 ? (
+                <div className="text-xs text-gray-600 italic text-center py-2">
+                    Run the analysis for each leverage / bucket setting to compare them.
+                </div>
+            ) : (
+                <div className="max-h-64 overflow-y-auto">
+                    <table className="w-full text-[10px] font-mono">
+                        <thead>
+                            <tr className="text-gray-500 uppercase text-left">
+                                <th className="font-normal pb-1">Setting</th>
+                                <th className="font-normal pb-1">Side</th>
+                                <th className="font-normal pb-1 text-right">N</th>
+                                <th className="font-normal pb-1 text-right">Hit</th>
+                                <th className="font-normal pb-1 text-right">Bars</th>
+                                <th className="font-normal pb-1 text-right">Overshoot</th>
+                                <th className="font-normal pb-1 text-right">Dist</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={`${row.label}-${row.side}-${row.horizon}`} className="text-gray-300 border-t border-white/5">
+                                    <td className="py-1 pr-2 text-gray-400 truncate max-w-[180px]" title={row.label}>{row.label}</td>
+                                    <td className={`py-1 ${row.side === 'long' ? 'text-red-400' : 'text-green-400'}`}>{row.side}</td>
+                                    <td className="py-1 text-right">{row.samples}</td>
+                                    <td className="py-1 text-right text-white">{(row.hitRate * 100).toFixed(1)}%</td>
+                                    <td className="py-1 text-right">{row.avgBarsToHit.toFixed(1)}</td>
+                                    <td className="py-1 text-right">{row.avgOvershoot.toFixed(2)}%</td>
+                                    <td className="py-1 text-right">{row.avgDistance.toFixed(2)}%</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ClusterStatsPanel;
@@ -1,27 +1,80 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Timeframe, HeatmapTheme } from '../types';
-import { Activity, Zap, Coins, Cloud, CloudOff, TrendingUp, Sliders, Clock, Maximize, Minimize, CalendarClock } from 'lucide-react';
+import { ExchangeId, VenueShare, Timeframe, HeatmapTheme, HeatmapSideVisibility, LeverageTier, LiquidationModel, EntryDistribution, HalfLifeConfig, HalfLifeMode, BucketConfig, BucketMode, TierLayerStyles, ImbalanceConfig, ImbalanceMode, HeatmapColorMode } from '../types';
+import { Activity, Zap, Coins, Cloud, CloudOff, TrendingUp, Sliders, Clock, Maximize, Minimize, CalendarClock, Calculator, AlignVerticalDistributeCenter, Scale, Hourglass, Rows3, ChevronsDown, ChevronsUp, Crosshair, Target, ArrowUpDown, ChevronsRight, Diff, Timer, DatabaseZap, Landmark } from 'lucide-react';
+import LeverageMixEditor from './LeverageMixEditor';
+import VenueMixEditor from './VenueMixEditor';
+import TierLayerManager from './TierLayerManager';
 
 interface ControlsProps {
+  exchange: ExchangeId;
+  setExchange: (e: ExchangeId) => void;
+  exchanges: { id: ExchangeId; label: string }[];
+  supportedTimeframes: Timeframe[]; // Intervals the selected exchange offers
+  venueMix: VenueShare[];
+  setVenueMix: (v: VenueShare[]) => void;
+  useVenueMix: boolean;
+  setUseVenueMix: (b: boolean) => void;
+  venueMixExchanges: ExchangeId[]; // Venues offering the selected timeframe and symbol
   timeframe: Timeframe;
   setTimeframe: (t: Timeframe) => void;
   history: string;
   setHistory: (h: string) => void;
+  onClearCache: () => void;
   leverage: number;
   setLeverage: (l: number) => void;
+  leverageMix: LeverageTier[];
+  setLeverageMix: (t: LeverageTier[]) => void;
+  useLeverageMix: boolean;
+  setUseLeverageMix: (b: boolean) => void;
+  tierLayerLeverages: number[];
+  tierLayerStyles: TierLayerStyles;
+  setTierLayerStyles: (s: TierLayerStyles) => void;
+  useTierLayers: boolean;
+  setUseTierLayers: (b: boolean) => void;
+  liquidationModel: LiquidationModel;
+  setLiquidationModel: (m: LiquidationModel) => void;
+  entryDistribution: EntryDistribution;
+  setEntryDistribution: (d: EntryDistribution) => void;
+  takerSplit: boolean;
+  setTakerSplit: (b: boolean) => void;
+  halfLife: HalfLifeConfig;
+  setHalfLife: (h: HalfLifeConfig) => void;
+  bucketConfig: BucketConfig;
+  setBucketConfig: (b: BucketConfig) => void;
+  imbalanceConfig: ImbalanceConfig;
+  setImbalanceConfig: (c: ImbalanceConfig) => void;
   noiseFilter: number;
   setNoiseFilter: (s: number) => void;
   sensitivity: number;
   setSensitivity: (s: number) => void;
-  theme: HeatmapTheme;
-  setTheme: (t: HeatmapTheme) => void;
+  longTheme: HeatmapTheme;
+  setLongTheme: (t: HeatmapTheme) => void;
+  shortTheme: HeatmapTheme;
+  setShortTheme: (t: HeatmapTheme) => void;
+  visibleSides: HeatmapSideVisibility;
+  setVisibleSides: (v: HeatmapSideVisibility) => void;
   symbol: string;
   setSymbol: (s: string) => void;
   cloudMode: boolean;
   setCloudMode: (b: boolean) => void;
   localNormalization: boolean;
   setLocalNormalization: (b: boolean) => void;
+  showClusters: boolean;
+  setShowClusters: (b: boolean) => void;
+  colorMode: HeatmapColorMode;
+  setColorMode: (m: HeatmapColorMode) => void;
+  showDiff: boolean;
+  setShowDiff: (b: boolean) => void;
+  diffBars: number;
+  setDiffBars: (n: number) => void;
+  showProjection: boolean;
+  setShowProjection: (b: boolean) => void;
+  projectionBars: number;
+  setProjectionBars: (n: number) => void;
+  showStatsPanel: boolean;
+  setShowStatsPanel: (b: boolean) => void;
   isCalculating: boolean;
+  calcProgress?: number | null;
   allSymbols?: string[];
 }
 
@@ -35,26 +88,83 @@ const POPULAR_PAIRS = [
     "FILUSDT", "JUPUSDT", "PYTHUSDT", "IMXUSDT", "STXUSDT"
 ];
 
+// Starting value when switching bucketing mode (units differ per mode)
+const BUCKET_DEFAULTS: { [mode in BucketMode]: number } = {
+    percent: 0.25,
+    log: 0.25,
+    tick: 10,
+};
+
 const Controls: React.FC<ControlsProps> = ({
+  exchange,
+  setExchange,
+  exchanges,
+  supportedTimeframes,
+  venueMix,
+  setVenueMix,
+  useVenueMix,
+  setUseVenueMix,
+  venueMixExchanges,
   timeframe,
   setTimeframe,
   history,
   setHistory,
+  onClearCache,
   leverage,
   setLeverage,
+  leverageMix,
+  setLeverageMix,
+  useLeverageMix,
+  setUseLeverageMix,
+  tierLayerLeverages,
+  tierLayerStyles,
+  setTierLayerStyles,
+  useTierLayers,
+  setUseTierLayers,
+  liquidationModel,
+  setLiquidationModel,
+  entryDistribution,
+  setEntryDistribution,
+  takerSplit,
+  setTakerSplit,
+  halfLife,
+  setHalfLife,
+  bucketConfig,
+  setBucketConfig,
+  imbalanceConfig,
+  setImbalanceConfig,
   noiseFilter,
   setNoiseFilter,
   sensitivity,
   setSensitivity,
-  theme,
-  setTheme,
+  longTheme,
+  setLongTheme,
+  shortTheme,
+  setShortTheme,
+  visibleSides,
+  setVisibleSides,
   symbol,
   setSymbol,
   cloudMode,
   setCloudMode,
   localNormalization,
   setLocalNormalization,
+  showClusters,
+  setShowClusters,
+  colorMode,
+  setColorMode,
+  showDiff,
+  setShowDiff,
+  diffBars,
+  setDiffBars,
+  showProjection,
+  setShowProjection,
+  projectionBars,
+  setProjectionBars,
+  showStatsPanel,
+  setShowStatsPanel,
   isCalculating,
+  calcProgress = null,
   allSymbols = []
 }) => {
   const timeframes: Timeframe[] = [
@@ -148,6 +258,31 @@ const Controls: React.FC<ControlsProps> = ({
         <div className="h-8 w-px bg-white/10 hidden sm:block"></div>
 
         <div className="flex items-center gap-2">
+            {/* Exchange Selector */}
+            <div className="relative group">
+                <Landmark size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none group-hover:text-blue-400 transition-colors" />
+                <select
+                    value={exchange}
+                    onChange={(e) => setExchange(e.target.value as ExchangeId)}
+                    className="pl-9 pr-8 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all cursor-pointer font-mono uppercase w-32"
+                    title="Exchange"
+                >
+                    {exchanges.map(ex => (
+                        <option key={ex.id} value={ex.id}>{ex.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Multi-Venue Aggregation */}
+            <VenueMixEditor
+                venues={venueMix}
+                setVenues={setVenueMix}
+                enabled={useVenueMix}
+                setEnabled={setUseVenueMix}
+                exchanges={exchanges}
+                supportedExchanges={venueMixExchanges}
+            />
+
             {/* Asset Input (Search with Suggestions) */}
             <div className="relative group">
                 <Coins size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none group-hover:text-blue-400 transition-colors z-10" />
@@ -211,7 +346,7 @@ const Controls: React.FC<ControlsProps> = ({
                     className="pl-9 pr-8 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all cursor-pointer font-mono uppercase w-24"
                 >
                     {timeframes.map(tf => (
-                        <option key={tf} value={tf}>{tf}</option>
+                        <option key={tf} value={tf} disabled={!supportedTimeframes.includes(tf)}>{tf}</option>
                     ))}
                 </select>
             </div>
@@ -230,13 +365,22 @@ const Controls: React.FC<ControlsProps> = ({
                 </select>
             </div>
 
+            <button
+                onClick={onClearCache}
+                className="p-1.5 rounded border bg-white/5 border-white/5 text-gray-500 hover:text-red-400 hover:bg-white/10 transition-all"
+                title="Clear Candle Cache"
+            >
+                <DatabaseZap size={16} />
+            </button>
+
              {/* Leverage Selector */}
-             <div className="relative group hidden md:block">
+             <div className="relative group hidden md:flex items-center gap-2">
                 <TrendingUp size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none group-hover:text-blue-400 transition-colors" />
                 <select 
                     value={leverage} 
                     onChange={(e) => setLeverage(Number(e.target.value))}
-                    className="pl-9 pr-8 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all cursor-pointer font-mono w-28"
+                    disabled={useLeverageMix}
+                    className={`pl-9 pr-8 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all cursor-pointer font-mono w-28 ${useLeverageMix ? 'opacity-40 cursor-not-allowed' : ''}`}
                 >
                     <option value={2}>2x Safe</option>
                     <option value={3}>3x Low</option>
@@ -249,6 +393,138 @@ const Controls: React.FC<ControlsProps> = ({
                     <option value={100}>100x Degen</option>
                     <option value={125}>125x Max</option>
                 </select>
+
+                {/* Leverage Distribution Editor */}
+                <LeverageMixEditor
+                    tiers={leverageMix}
+                    setTiers={setLeverageMix}
+                    enabled={useLeverageMix}
+                    setEnabled={setUseLeverageMix}
+                />
+
+                {/* Per-Leverage Layer Manager */}
+                <TierLayerManager
+                    leverages={tierLayerLeverages}
+                    styles={tierLayerStyles}
+                    setStyles={setTierLayerStyles}
+                    enabled={useTierLayers}
+                    setEnabled={setUseTierLayers}
+                />
+            </div>
+
+            {/* Liquidation Price Model Selector */}
+            <div className="relative group hidden lg:block">
+                <Calculator size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none group-hover:text-blue-400 transition-colors" />
+                <select 
+                    value={liquidationModel} 
+                    onChange={(e) => setLiquidationModel(e.target.value as LiquidationModel)}
+                    className="pl-9 pr-8 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all cursor-pointer font-mono w-32"
+                    title="Liquidation Price Model"
+                >
+                    <option value="naive">Naive</option>
+                    <option value="exchange">Exchange</option>
+                </select>
+            </div>
+
+            {/* Entry Distribution Selector */}
+            <div className="relative group hidden lg:block">
+                <AlignVerticalDistributeCenter size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none group-hover:text-blue-400 transition-colors" />
+                <select 
+                    value={entryDistribution} 
+                    onChange={(e) => setEntryDistribution(e.target.value as EntryDistribution)}
+                    className="pl-9 pr-8 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all cursor-pointer font-mono w-32"
+                    title="Entry Price Distribution"
+                >
+                    <option value="close">Close</option>
+                    <option value="ohlc4">OHLC4</option>
+                    <option value="uniform">Uniform</option>
+                    <option value="triangular">Triangular</option>
+                </select>
+            </div>
+
+            {/* Level Half-Life */}
+            <div className="relative group hidden xl:flex items-center gap-1">
+                <Hourglass size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none group-hover:text-blue-400 transition-colors" />
+                <select 
+                    value={halfLife.mode} 
+                    onChange={(e) => setHalfLife({ ...halfLife, mode: e.target.value as HalfLifeMode })}
+                    className="pl-9 pr-8 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all cursor-pointer font-mono w-28"
+                    title="Level Half-Life"
+                >
+                    <option value="off">No Decay</option>
+                    <option value="bars">Bars</option>
+                    <option value="hours">Hours</option>
+                </select>
+                {halfLife.mode !== 'off' && (
+                    <input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={halfLife.value}
+                        onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (value > 0) setHalfLife({ ...halfLife, value });
+                        }}
+                        className="px-2 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all font-mono w-16"
+                        title={`Half-life in ${halfLife.mode}`}
+                    />
+                )}
+            </div>
+
+            {/* Price Bucketing */}
+            <div className="relative group hidden xl:flex items-center gap-1">
+                <Rows3 size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none group-hover:text-blue-400 transition-colors" />
+                <select 
+                    value={bucketConfig.mode} 
+                    onChange={(e) => {
+                        const mode = e.target.value as BucketMode;
+                        setBucketConfig({ mode, value: BUCKET_DEFAULTS[mode] });
+                    }}
+                    className="pl-9 pr-8 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all cursor-pointer font-mono w-28"
+                    title="Price Bucketing"
+                >
+                    <option value="percent">% Price</option>
+                    <option value="log">Log</option>
+                    <option value="tick">Ticks</option>
+                </select>
+                <input
+                    type="number"
+                    min={bucketConfig.mode === 'tick' ? 1 : 0.05}
+                    step={bucketConfig.mode === 'tick' ? 1 : 0.05}
+                    value={bucketConfig.value}
+                    onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (value > 0) setBucketConfig({ ...bucketConfig, value });
+                    }}
+                    className="px-2 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all font-mono w-16"
+                    title={bucketConfig.mode === 'tick' ? 'Ticks per bucket' : 'Bucket height in % of price'}
+                />
+            </div>
+
+            {/* Long/Short Imbalance Pane */}
+            <div className="relative group hidden xl:flex items-center gap-1">
+                <ArrowUpDown size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none group-hover:text-blue-400 transition-colors" />
+                <select 
+                    value={imbalanceConfig.mode} 
+                    onChange={(e) => setImbalanceConfig({ ...imbalanceConfig, mode: e.target.value as ImbalanceMode })}
+                    className="pl-9 pr-8 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all cursor-pointer font-mono w-28"
+                    title="Long/Short Imbalance"
+                >
+                    <option value="ratio">Ratio</option>
+                    <option value="difference">Diff</option>
+                </select>
+                <input
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    value={imbalanceConfig.window}
+                    onChange={(e) => {
+                        const window = parseFloat(e.target.value);
+                        if (window > 0) setImbalanceConfig({ ...imbalanceConfig, window });
+                    }}
+                    className="px-2 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all font-mono w-16"
+                    title="Imbalance window in % of price"
+                />
             </div>
         </div>
       </div>
@@ -318,31 +594,165 @@ const Controls: React.FC<ControlsProps> = ({
             >
                 {localNormalization ? <Maximize size={18} /> : <Minimize size={18} />}
             </button>
+
+             <button 
+                onClick={() => setTakerSplit(!takerSplit)}
+                className={`p-2 rounded border transition-all ${
+                    takerSplit 
+                    ? 'bg-orange-500/10 border-orange-500/40 text-orange-400 shadow-[0_0_15px_rgba(249,115,22,0.2)]' 
+                    : 'bg-transparent border-transparent text-gray-600 hover:text-gray-300 hover:bg-white/5'
+                }`}
+                title="Toggle Taker Buy/Sell Split"
+            >
+                <Scale size={18} />
+            </button>
+
+             <button 
+                onClick={() => setVisibleSides({ ...visibleSides, long: !visibleSides.long })}
+                className={`p-2 rounded border transition-all ${
+                    visibleSides.long 
+                    ? 'bg-red-500/10 border-red-500/40 text-red-400 shadow-[0_0_15px_rgba(239,68,68,0.2)]' 
+                    : 'bg-transparent border-transparent text-gray-600 hover:text-gray-300 hover:bg-white/5'
+                }`}
+                title="Toggle Long Liquidations"
+            >
+                <ChevronsDown size={18} />
+            </button>
+
+             <button 
+                onClick={() => setVisibleSides({ ...visibleSides, short: !visibleSides.short })}
+                className={`p-2 rounded border transition-all ${
+                    visibleSides.short 
+                    ? 'bg-green-500/10 border-green-500/40 text-green-400 shadow-[0_0_15px_rgba(34,197,94,0.2)]' 
+                    : 'bg-transparent border-transparent text-gray-600 hover:text-gray-300 hover:bg-white/5'
+                }`}
+                title="Toggle Short Liquidations"
+            >
+                <ChevronsUp size={18} />
+            </button>
+
+             <button 
+                onClick={() => setShowClusters(!showClusters)}
+                className={`p-2 rounded border transition-all ${
+                    showClusters 
+                    ? 'bg-yellow-500/10 border-yellow-500/40 text-yellow-400 shadow-[0_0_15px_rgba(234,179,8,0.2)]' 
+                    : 'bg-transparent border-transparent text-gray-600 hover:text-gray-300 hover:bg-white/5'
+                }`}
+                title="Toggle Cluster Levels"
+            >
+                <Crosshair size={18} />
+            </button>
+
+             <button 
+                onClick={() => setShowStatsPanel(!showStatsPanel)}
+                className={`p-2 rounded border transition-all ${
+                    showStatsPanel 
+                    ? 'bg-yellow-500/10 border-yellow-500/40 text-yellow-400 shadow-[0_0_15px_rgba(234,179,8,0.2)]' 
+                    : 'bg-transparent border-transparent text-gray-600 hover:text-gray-300 hover:bg-white/5'
+                }`}
+                title="Cluster Hit-Rate Statistics"
+            >
+                <Target size={18} />
+            </button>
+
+             <button 
+                onClick={() => setColorMode(colorMode === 'age' ? 'density' : 'age')}
+                className={`p-2 rounded border transition-all ${
+                    colorMode === 'age' 
+                    ? 'bg-amber-500/10 border-amber-500/40 text-amber-400 shadow-[0_0_15px_rgba(245,158,11,0.2)]' 
+                    : 'bg-transparent border-transparent text-gray-600 hover:text-gray-300 hover:bg-white/5'
+                }`}
+                title="Color by Level Age"
+            >
+                <Timer size={18} />
+            </button>
+
+             <button 
+                onClick={() => setShowDiff(!showDiff)}
+                className={`p-2 rounded border transition-all ${
+                    showDiff 
+                    ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-400 shadow-[0_0_15px_rgba(6,182,212,0.2)]' 
+                    : 'bg-transparent border-transparent text-gray-600 hover:text-gray-300 hover:bg-white/5'
+                }`}
+                title="Diff Mode (Change vs N Bars Earlier)"
+            >
+                <Diff size={18} />
+            </button>
+            {showDiff && (
+                <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={diffBars}
+                    onChange={(e) => {
+                        const bars = parseInt(e.target.value, 10);
+                        if (bars > 0) setDiffBars(bars);
+                    }}
+                    className="px-2 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-cyan-500/50 transition-all font-mono w-14"
+                    title="Compare with N bars earlier"
+                />
+            )}
+
+             <button 
+                onClick={() => setShowProjection(!showProjection)}
+                className={`p-2 rounded border transition-all ${
+                    showProjection 
+                    ? 'bg-blue-500/10 border-blue-500/40 text-blue-400 shadow-[0_0_15px_rgba(59,130,246,0.2)]' 
+                    : 'bg-transparent border-transparent text-gray-600 hover:text-gray-300 hover:bg-white/5'
+                }`}
+                title="Project Latest Heatmap Forward"
+            >
+                <ChevronsRight size={18} />
+            </button>
+            {showProjection && (
+                <input
+                    type="number"
+                    min={1}
+                    step={5}
+                    value={projectionBars}
+                    onChange={(e) => {
+                        const bars = parseInt(e.target.value, 10);
+                        if (bars > 0) setProjectionBars(bars);
+                    }}
+                    className="px-2 py-1.5 bg-white/5 border border-white/5 hover:border-white/10 hover:bg-white/10 text-sm text-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500/50 transition-all font-mono w-14"
+                    title="Projected bars"
+                />
+            )}
         </div>
         
-        {/* Color Pickers */}
-        <div className="flex items-center gap-2">
-            <div className="flex -space-x-1.5">
-                {colorKeys.map((key) => (
-                    <div key={key} className="relative w-6 h-6 rounded-full border-2 border-[#050505] shadow-sm hover:scale-110 hover:z-20 transition-transform cursor-pointer group">
-                         <div className="absolute inset-0 w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: theme[key] }}></div>
-                         <input 
-                            type="color" 
-                            value={theme[key]} 
-                            onChange={(e) => {
-                                const newTheme = { ...theme, [key]: e.target.value };
-                                setTheme(newTheme);
-                            }}
-                            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10 p-0 m-0"
-                        />
-                    </div>
-                ))}
-            </div>
+        {/* Color Pickers (long ramp on top, short ramp below) */}
+        <div className="flex flex-col gap-0.5">
+            {[
+                { theme: longTheme, setTheme: setLongTheme, label: 'Long' },
+                { theme: shortTheme, setTheme: setShortTheme, label: 'Short' }
+            ].map(({ theme, setTheme, label }) => (
+                <div key={label} className="flex -space-x-1.5" title={`${label} Liquidation Colors`}>
+                    {colorKeys.map((key) => (
+                        <div key={key} className="relative w-4 h-4 rounded-full border-2 border-[#050505] shadow-sm hover:scale-110 hover:z-20 transition-transform cursor-pointer group">
+                             <div className="absolute inset-0 w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: theme[key] }}></div>
+                             <input 
+                                type="color" 
+                                value={theme[key]} 
+                                onChange={(e) => {
+                                    const newTheme = { ...theme, [key]: e.target.value };
+                                    setTheme(newTheme);
+                                }}
+                                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10 p-0 m-0"
+                            />
+                        </div>
+                    ))}
+                </div>
+            ))}
         </div>
 
-        <div className="flex items-center justify-center w-6">
+        <div className="flex items-center justify-center gap-1.5 min-w-6">
             {isCalculating ? (
-                 <div className="animate-spin text-yellow-500"><Zap size={14} /></div>
+                 <>
+                    <div className="animate-spin text-yellow-500"><Zap size={14} /></div>
+                    {calcProgress !== null && (
+                        <span className="text-[9px] font-mono text-yellow-500/80 w-7 text-right">{Math.round(calcProgress * 100)}%</span>
+                    )}
+                 </>
             ) : (
                  <div className="w-1.5 h-1.5 bg-green-500 rounded-full shadow-[0_0_8px_#22c55e] animate-pulse"></div>
             )}
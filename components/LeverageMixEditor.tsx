@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Layers, X, Plus } from 'lucide-react';
+import { LeverageTier } from '../types';
+
+interface LeverageMixEditorProps {
+    tiers: LeverageTier[];
+    setTiers: (t: LeverageTier[]) => void;
+    enabled: boolean;
+    setEnabled: (b: boolean) => void;
+}
+
+const TIER_OPTIONS = [2, 3, 5, 10, 20, 25, 50, 75, 100, 125];
+
+const LeverageMixEditor: React.FC<LeverageMixEditorProps> = ({
+    tiers,
+    setTiers,
+    enabled,
+    setEnabled
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const totalWeight = tiers.reduce((sum, t) => sum + t.weight, 0);
+    const availableTiers = TIER_OPTIONS.filter(l => !tiers.some(t => t.leverage === l));
+
+    const updateWeight = (leverage: number, weight: number) => {
+        setTiers(tiers.map(t => t.leverage === leverage ? { ...t, weight } : t));
+    };
+
+    const removeTier = (leverage: number) => {
+        setTiers(tiers.filter(t => t.leverage !== leverage));
+    };
+
+    const addTier = (leverage: number) => {
+        const next = [...tiers, { leverage, weight: 10 }];
+        next.sort((a, b) => a.leverage - b.leverage);
+        setTiers(next);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`p-1.5 rounded border transition-all ${
+                    enabled
+                    ? 'bg-blue-500/10 border-blue-500/40 text-blue-400 shadow-[0_0_15px_rgba(59,130,246,0.2)]'
+                    : 'bg-white/5 border-white/5 text-gray-500 hover:text-gray-300 hover:bg-white/10'
+                }`}
+                title="Leverage Distribution"
+            >
+                <Layers size={16} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute top-full left-0 mt-2 w-64 bg-[#0a0a0a] border border-white/10 rounded-md shadow-[0_10px_40px_rgba(0,0,0,0.5)] z-[60] p-3 flex flex-col gap-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Leverage Mix</span>
+                        <label className="flex items-center gap-2 text-[10px] text-gray-500 uppercase tracking-wider cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={enabled}
+                                onChange={(e) => setEnabled(e.target.checked)}
+                                className="accent-blue-500"
+                            />
+                            Active
+                        </label>
+                    </div>
+
+                    <div className={`flex flex-col gap-2 ${enabled ? '' : 'opacity-40'}`}>
+                        {tiers.map(t => (
+                            <div key={t.leverage} className="flex items-center gap-2">
+                                <span className="text-xs font-mono text-gray-300 w-10">{t.leverage}x</span>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="100"
+                                    step="1"
+                                    value={t.weight}
+                                    onChange={(e) => updateWeight(t.leverage, parseFloat(e.target.value))}
+                                    className="flex-1 h-5 cursor-pointer"
+                                />
+                                <span className="text-[10px] font-mono text-gray-500 w-9 text-right">
+                                    {totalWeight > 0 ? ((t.weight / totalWeight) * 100).toFixed(0) : 0}%
+                                </span>
+                                <button
+                                    onClick={() => removeTier(t.leverage)}
+                                    className="text-gray-600 hover:text-red-400 transition-colors"
+                                    title="Remove Tier"
+                                >
+                                    <X size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    {enabled && totalWeight <= 0 && (
+                        <div className="text-[10px] text-amber-400/80">
+                            No tier has a weight; the default mix is used.
+                        </div>
+                    )}
+
+                    {availableTiers.length > 0 && (
+                        <div className="flex items-center gap-2 border-t border-white/5 pt-2">
+                            <Plus size={12} className="text-gray-500" />
+                            <select
+                                value=""
+                                onChange={(e) => addTier(Number(e.target.value))}
+                                className="flex-1 px-2 py-1 bg-white/5 border border-white/5 hover:border-white/10 text-xs text-gray-300 rounded focus:outline-none cursor-pointer font-mono"
+                            >
+                                <option value="" disabled>Add tier...</option>
+                                {availableTiers.map(l => (
+                                    <option key={l} value={l}>{l}x</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LeverageMixEditor;
@@ -1,21 +1,36 @@
 
 import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import { createChart, CandlestickSeries, IChartApi, ISeriesApi, Time, ColorType, CrosshairMode, MouseEventParams, IPriceLine, Logical } from 'lightweight-charts';
-import { Candle, HeatmapSnapshot, HeatmapTheme, CrosshairData, DrawingToolType, Drawing, Timeframe, ChartPoint, DrawingStyle } from '../types';
+import { createChart, CandlestickSeries, HistogramSeries, IChartApi, ISeriesApi, Time, ColorType, CrosshairMode, MouseEventParams, IPriceLine, Logical, createSeriesMarkers, ISeriesMarkersPluginApi, SeriesMarker } from 'lightweight-charts';
+import { Candle, HeatmapGrid, HeatmapTierLayer, HeatmapVenueLayer, TierLayerStyles, LiquidationCluster, LiquidationEvent, ImbalancePoint, CellProvenance, HeatmapColorMode, HeatmapTheme, HeatmapSideVisibility, CrosshairData, DrawingToolType, Drawing, Timeframe, ChartPoint, DrawingStyle } from '../types';
+import { priceToRow, rowToPrice, getDensity, getColumnPeaks } from '../utils/heatmapGrid';
+import { buildAgeLUT, getAgeFraction, AGE_HUE_STEPS } from '../utils/ageColors';
+import { getTierLayerStyle } from '../utils/tierLayerStyles';
 import DrawingToolbar from './DrawingToolbar';
 
 interface LiquidationChartProps {
   candles: Candle[];
-  heatmapData: HeatmapSnapshot[];
+  heatmapData: HeatmapGrid | null;
+  tierLayers: HeatmapTierLayer[]; // Per-leverage grids; drawn instead of the blended heatmap when present
+  venueLayers: HeatmapVenueLayer[]; // Per-venue grids of an aggregated heatmap; only used for the crosshair breakdown
+  tierLayerStyles: TierLayerStyles;
+  liquidationEvents: LiquidationEvent[];
   globalMaxDensity: number;
   noiseFilter: number;
   sensitivity: number;
-  theme: HeatmapTheme;
+  longTheme: HeatmapTheme; // Color ramp for long liquidations
+  shortTheme: HeatmapTheme; // Color ramp for short liquidations
+  visibleSides: HeatmapSideVisibility;
   cloudMode: boolean; 
   localNormalization: boolean;
+  clusters: LiquidationCluster[]; // Drawn as labelled price lines
+  imbalance: ImbalancePoint[]; // Long/short density balance near price, drawn in its own pane
+  projectionBars: number; // Bars the latest column is extended into the future (0 = off)
+  diffBars: number; // Draw each column minus the one this many bars earlier instead of density (0 = off)
+  colorMode: HeatmapColorMode; // 'age' needs a grid that tracks ages
   timeframe: Timeframe;
-  bucketSize: number;
   onCrosshairMove?: (data: CrosshairData | null) => void;
+  provenance: CellProvenance | null; // Origin candles of the inspected cell are marked
+  onCellClick?: (column: number, price: number) => void; // Heatmap click in cursor mode
 }
 
 const parseHexToRgb = (hex: string) => {
@@ -55,27 +70,207 @@ const getIntervalSeconds = (tf: Timeframe): number => {
     }
 }
 
+// 101-step color ramp (index = normalized density * 100)
+const buildColorLUT = (theme: HeatmapTheme, cloudMode: boolean): string[] => {
+  const lut: string[] = [];
+  const steps = 100;
+  const rgbLow = parseHexToRgb(theme.low);
+  const rgbMed = parseHexToRgb(theme.medium);
+  const rgbHigh = parseHexToRgb(theme.high);
+  const rgbExt = parseHexToRgb(theme.extreme);
+
+  for (let i = 0; i <= steps; i++) {
+      const d = i / steps; 
+      let r=0, g=0, b=0, alpha=0;
+
+      if (cloudMode) {
+           alpha = 0.85; 
+           if (d < 0.25) { r = rgbLow.r; g = rgbLow.g; b = rgbLow.b; }
+           else if (d < 0.50) { r = rgbMed.r; g = rgbMed.g; b = rgbMed.b; }
+           else if (d < 0.75) { r = rgbHigh.r; g = rgbHigh.g; b = rgbHigh.b; }
+           else { r = rgbExt.r; g = rgbExt.g; b = rgbExt.b; }
+      } else {
+           alpha = 0.2 + (d * 0.8);
+           if (d < 0.33) {
+              const factor = d / 0.33;
+              r = rgbLow.r + (rgbMed.r - rgbLow.r) * factor;
+              g = rgbLow.g + (rgbMed.g - rgbLow.g) * factor;
+              b = rgbLow.b + (rgbMed.b - rgbLow.b) * factor;
+          } else if (d < 0.66) {
+              const factor = (d - 0.33) / 0.33;
+              r = rgbMed.r + (rgbHigh.r - rgbMed.r) * factor;
+              g = rgbMed.g + (rgbHigh.g - rgbMed.g) * factor;
+              b = rgbMed.b + (rgbHigh.b - rgbMed.b) * factor;
+          } else {
+              const factor = (d - 0.66) / 0.34;
+              r = rgbHigh.r + (rgbExt.r - rgbHigh.r) * factor;
+              g = rgbHigh.g + (rgbExt.g - rgbHigh.g) * factor;
+              b = rgbHigh.b + (rgbExt.b - rgbHigh.b) * factor;
+          }
+      }
+      lut.push(`rgba(${Math.round(r)},${Math.round(g)},${Math.round(b)},${alpha.toFixed(2)})`);
+  }
+  return lut;
+};
+
+// Single-hue ramp for a leverage layer: density only drives the alpha
+const buildSolidLUT = (color: string, opacity: number): string[] => {
+  const { r, g, b } = parseHexToRgb(color);
+  const lut: string[] = [];
+  for (let i = 0; i <= 100; i++) {
+      const alpha = opacity * (0.15 + (i / 100) * 0.85);
+      lut.push(`rgba(${r},${g},${b},${alpha.toFixed(2)})`);
+  }
+  return lut;
+};
+
+// Diverging scale of diff mode: liquidity added vs removed since N bars earlier
+const DIFF_ADDED_LUT = buildSolidLUT('#22d3ee', 0.9);
+const DIFF_REMOVED_LUT = buildSolidLUT('#f472b6', 0.9);
+
+// Age color mode: hue = mean level age, brightness = density
+const AGE_LUT = buildAgeLUT();
+
+// Height (px) of the swept-liquidations histogram pane under the candles
+const LIQ_PANE_HEIGHT = 110;
+const IMBALANCE_PANE_HEIGHT = 90;
+
+// Origin candles marked when a heatmap cell is inspected
+const PROVENANCE_MARKER_COUNT = 30;
+
+// Liquidation profile drawn against the right price scale
+const PROFILE_WIDTH = 120;
+const PROFILE_PEAK_COUNT = 5;
+
+interface ProfileDrawParams {
+  grid: HeatmapGrid;
+  column: number;
+  isLatest: boolean;
+  series: ISeriesApi<"Candlestick">;
+  rightEdge: number;
+  minRow: number;
+  maxRow: number;
+  currentClose: number;
+  sides: HeatmapSideVisibility;
+  longColor: string;
+  shortColor: string;
+}
+
+const formatProfilePrice = (price: number) => {
+  if (price >= 1000) return price.toFixed(0);
+  if (price >= 1) return price.toFixed(2);
+  return price.toPrecision(4);
+};
+
+/**
+ * Horizontal bars of one column's densities (long and short stacked), growing left from the
+ * price scale, with the strongest peaks labelled by price and distance from the current close.
+ */
+const drawLiquidationProfile = (ctx: CanvasRenderingContext2D, p: ProfileDrawParams) => {
+  const { grid, column, series, rightEdge, sides } = p;
+  const from = Math.max(grid.rowStart[column], p.minRow);
+  const to = Math.min(grid.rowEnd[column] - 1, p.maxRow);
+
+  let max = 0;
+  for (let r = from; r <= to; r++) {
+    const total = (sides.long ? getDensity(grid, column, r, 'long') : 0) + (sides.short ? getDensity(grid, column, r, 'short') : 0);
+    if (total > max) max = total;
+  }
+  if (max <= 0) return;
+
+  const left = rightEdge - PROFILE_WIDTH;
+  ctx.fillStyle = 'rgba(5,5,5,0.55)';
+  ctx.fillRect(left, 0, PROFILE_WIDTH, ctx.canvas.height);
+
+  ctx.globalAlpha = 0.75;
+  for (let r = from; r <= to; r++) {
+    const yBottom = series.priceToCoordinate(rowToPrice(grid, r));
+    const yTop = series.priceToCoordinate(rowToPrice(grid, r + 1));
+    if (yBottom === null || yTop === null) continue;
+    const h = Math.max(1, yBottom - yTop - 1);
+
+    let x = rightEdge;
+    if (sides.long) {
+      const w = (getDensity(grid, column, r, 'long') / max) * PROFILE_WIDTH;
+      ctx.fillStyle = p.longColor;
+      ctx.fillRect(x - w, yTop, w, h);
+      x -= w;
+    }
+    if (sides.short) {
+      const w = (getDensity(grid, column, r, 'short') / max) * PROFILE_WIDTH;
+      ctx.fillStyle = p.shortColor;
+      ctx.fillRect(x - w, yTop, w, h);
+    }
+  }
+  ctx.globalAlpha = 1;
+
+  // Peak labels
+  const side = sides.long && sides.short ? undefined : sides.long ? 'long' : 'short';
+  const peaks = getColumnPeaks(grid, column, PROFILE_PEAK_COUNT, side, from, to);
+  ctx.font = '10px ui-monospace, monospace';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  for (const row of peaks) {
+    const price = (rowToPrice(grid, row) + rowToPrice(grid, row + 1)) / 2;
+    const y = series.priceToCoordinate(price);
+    if (y === null) continue;
+    const distance = ((price - p.currentClose) / p.currentClose) * 100;
+    const text = `${formatProfilePrice(price)} ${distance >= 0 ? '+' : ''}${distance.toFixed(2)}%`;
+    const textWidth = ctx.measureText(text).width;
+    ctx.fillStyle = 'rgba(5,5,5,0.8)';
+    ctx.fillRect(left - textWidth - 8, y - 7, textWidth + 6, 14);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillText(text, left - 4, y);
+  }
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = 'rgba(161,161,170,0.8)';
+  ctx.fillText(p.isLatest ? 'PROFILE · LATEST' : 'PROFILE · CURSOR', left + 4, 4);
+};
+
 const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({ 
     candles, 
     heatmapData, 
+    tierLayers,
+    venueLayers,
+    tierLayerStyles,
+    liquidationEvents,
     globalMaxDensity, 
     noiseFilter, 
     sensitivity, 
-    theme,
+    longTheme,
+    shortTheme,
+    visibleSides,
     cloudMode,
     localNormalization,
+    clusters,
+    imbalance,
+    projectionBars,
+    diffBars,
+    colorMode,
     timeframe,
-    bucketSize,
-    onCrosshairMove
+    onCrosshairMove,
+    provenance,
+    onCellClick
 }) => {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const svgRef = useRef<SVGSVGElement>(null); 
   const chartRef = useRef<IChartApi | null>(null);
   const candlestickSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
+  // Candles last written to the candlestick series
+  const shownCandlesRef = useRef<Candle[]>([]);
+  const longLiqSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+  const shortLiqSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+  const imbalanceSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
   const priceLinesRef = useRef<Map<string, IPriceLine>>(new Map()); 
+  const clusterLinesRef = useRef<IPriceLine[]>([]);
+  const provenanceMarkersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
 
   const dimensionsRef = useRef({ width: 0, height: 0 });
+  // Column under the crosshair for the liquidation profile (null = latest)
+  const profileColumnRef = useRef<number | null>(null);
 
   // --- DRAWING STATE ---
   const [activeTool, setActiveTool] = useState<DrawingToolType>('cursor');
@@ -183,48 +378,13 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [selectedDrawingId, isDrawingsLocked]);
 
-  // --- COLOR LUT ---
-  const colorLUT = useMemo(() => {
-    const lut: string[] = [];
-    const steps = 100;
-    const rgbLow = parseHexToRgb(theme.low);
-    const rgbMed = parseHexToRgb(theme.medium);
-    const rgbHigh = parseHexToRgb(theme.high);
-    const rgbExt = parseHexToRgb(theme.extreme);
-
-    for (let i = 0; i <= steps; i++) {
-        const d = i / steps; 
-        let r=0, g=0, b=0, alpha=0;
-
-        if (cloudMode) {
-             alpha = 0.85; 
-             if (d < 0.25) { r = rgbLow.r; g = rgbLow.g; b = rgbLow.b; }
-             else if (d < 0.50) { r = rgbMed.r; g = rgbMed.g; b = rgbMed.b; }
-             else if (d < 0.75) { r = rgbHigh.r; g = rgbHigh.g; b = rgbHigh.b; }
-             else { r = rgbExt.r; g = rgbExt.g; b = rgbExt.b; }
-        } else {
-             alpha = 0.2 + (d * 0.8);
-             if (d < 0.33) {
-                const factor = d / 0.33;
-                r = rgbLow.r + (rgbMed.r - rgbLow.r) * factor;
-                g = rgbLow.g + (rgbMed.g - rgbLow.g) * factor;
-                b = rgbLow.b + (rgbMed.b - rgbLow.b) * factor;
-            } else if (d < 0.66) {
-                const factor = (d - 0.33) / 0.33;
-                r = rgbMed.r + (rgbHigh.r - rgbMed.r) * factor;
-                g = rgbMed.g + (rgbHigh.g - rgbMed.g) * factor;
-                b = rgbMed.b + (rgbHigh.b - rgbMed.b) * factor;
-            } else {
-                const factor = (d - 0.66) / 0.34;
-                r = rgbHigh.r + (rgbExt.r - rgbHigh.r) * factor;
-                g = rgbHigh.g + (rgbExt.g - rgbHigh.g) * factor;
-                b = rgbHigh.b + (rgbExt.b - rgbHigh.b) * factor;
-            }
-        }
-        lut.push(`rgba(${Math.round(r)},${Math.round(g)},${Math.round(b)},${alpha.toFixed(2)})`);
-    }
-    return lut;
-  }, [theme, cloudMode]);
+  // --- COLOR LUTS ---
+  const longColorLUT = useMemo(() => buildColorLUT(longTheme, cloudMode), [longTheme, cloudMode]);
+  const shortColorLUT = useMemo(() => buildColorLUT(shortTheme, cloudMode), [shortTheme, cloudMode]);
+  const tierLUTs = useMemo(() => tierLayers.map((layer: HeatmapTierLayer, t: number) => {
+      const style = getTierLayerStyle(tierLayerStyles, layer.leverage, t);
+      return buildSolidLUT(style.color, style.opacity);
+  }), [tierLayers, tierLayerStyles]);
 
   // Init Chart
   useEffect(() => {
@@ -273,8 +433,34 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
       wickDownColor: '#ef4444',
     });
 
+    // Swept liquidations sub-pane: shorts above zero, longs below
+    const shortLiqSeries = chart.addSeries(HistogramSeries, {
+      color: 'rgba(16, 185, 129, 0.7)',
+      priceLineVisible: false,
+      lastValueVisible: false,
+      priceFormat: { type: 'volume' },
+    }, 1);
+    const longLiqSeries = chart.addSeries(HistogramSeries, {
+      color: 'rgba(239, 68, 68, 0.7)',
+      priceLineVisible: false,
+      lastValueVisible: false,
+      priceFormat: { type: 'volume' },
+    }, 1);
+    chart.panes()[1]?.setHeight(LIQ_PANE_HEIGHT);
+
+    // Imbalance sub-pane: above zero shorts dominate near price, below zero longs do
+    const imbalanceSeries = chart.addSeries(HistogramSeries, {
+      priceLineVisible: false,
+      lastValueVisible: true,
+    }, 2);
+    chart.panes()[2]?.setHeight(IMBALANCE_PANE_HEIGHT);
+
     chartRef.current = chart;
     candlestickSeriesRef.current = series;
+    provenanceMarkersRef.current = createSeriesMarkers(series, []);
+    longLiqSeriesRef.current = longLiqSeries;
+    shortLiqSeriesRef.current = shortLiqSeries;
+    imbalanceSeriesRef.current = imbalanceSeries;
 
     const resizeObserver = new ResizeObserver((entries) => {
       window.requestAnimationFrame(() => {
@@ -354,18 +540,59 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
 
   // Update Candles
   useEffect(() => {
-    if (candlestickSeriesRef.current && candles.length > 0) {
-      const formattedData = candles.map(c => ({
-        time: c.time as Time,
-        open: c.open,
-        high: c.high,
-        low: c.low,
-        close: c.close
-      }));
-      candlestickSeriesRef.current.setData(formattedData);
+    const series = candlestickSeriesRef.current;
+    if (!series || candles.length === 0) return;
+    const toBar = (c: Candle) => ({
+      time: c.time as Time,
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close
+    });
+
+    // Streamed updates only revise the forming candle and append new ones; everything before it
+    // is the same objects. Those go through series.update instead of resetting the whole series.
+    const shown = shownCandlesRef.current;
+    const last = shown.length - 1;
+    let incremental = last >= 0 && candles.length >= shown.length && candles[last].time === shown[last].time;
+    for (let i = 0; incremental && i < last; i++) incremental = candles[i] === shown[i];
+
+    if (incremental) {
+      for (let i = last; i < candles.length; i++) series.update(toBar(candles[i]));
+    } else {
+      series.setData(candles.map(toBar));
     }
+    shownCandlesRef.current = candles;
   }, [candles]);
 
+  // Update Swept Liquidations Histogram
+  useEffect(() => {
+    if (!longLiqSeriesRef.current || !shortLiqSeriesRef.current) return;
+    longLiqSeriesRef.current.setData(liquidationEvents.map(e => ({
+        time: e.time as Time,
+        value: -e.longVolume
+    })));
+    shortLiqSeriesRef.current.setData(liquidationEvents.map(e => ({
+        time: e.time as Time,
+        value: e.shortVolume
+    })));
+  }, [liquidationEvents]);
+
+  // Leave room at the live edge for the projected columns
+  useEffect(() => {
+    chartRef.current?.timeScale().applyOptions({ rightOffset: projectionBars });
+  }, [projectionBars]);
+
+  // Update Imbalance Pane
+  useEffect(() => {
+    if (!imbalanceSeriesRef.current) return;
+    imbalanceSeriesRef.current.setData(imbalance.map(p => ({
+        time: p.time as Time,
+        value: p.value,
+        color: p.value >= 0 ? 'rgba(16, 185, 129, 0.6)' : 'rgba(239, 68, 68, 0.6)'
+    })));
+  }, [imbalance]);
+
   // --- HELPER: Coordinate to Time/Price ---
   const getChartDataFromXY = useCallback((x: number, y: number) => {
       if (!chartRef.current || !candlestickSeriesRef.current || candles.length === 0) return null;
@@ -583,6 +810,15 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
         
         if (activeTool === 'cursor' && !resizingHandleIndexRef.current && !draggingId) {
              setSelectedDrawingId(null);
+
+             // Inspect the clicked heatmap cell (main pane only)
+             const series = candlestickSeriesRef.current;
+             const logical = chart.timeScale().coordinateToLogical(param.point.x);
+             const price = series ? series.coordinateToPrice(param.point.y) : null;
+             if (onCellClick && heatmapData && (param.paneIndex ?? 0) === 0 && logical !== null && price !== null) {
+                 const index = Math.round(logical);
+                 if (index >= 0 && index < heatmapData.length) onCellClick(index, price);
+             }
         }
 
         if (activeTool === 'brush' || isDrawingsLocked) return;
@@ -640,7 +876,7 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
 
     chart.subscribeClick(handleClick);
     return () => chart.unsubscribeClick(handleClick);
-  }, [activeTool, currentDrawing, getChartTime, toolStyle, isDrawingsLocked, draggingId]);
+  }, [activeTool, currentDrawing, getChartTime, toolStyle, isDrawingsLocked, draggingId, heatmapData, onCellClick]);
 
   useEffect(() => {
     const chart = chartRef.current;
@@ -649,6 +885,9 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
     const handleMove = (param: MouseEventParams) => {
         if (onCrosshairMove) handleCrosshairMoveLegacy(param);
 
+        const logical = param.point && param.time ? chart.timeScale().coordinateToLogical(param.point.x) : null;
+        profileColumnRef.current = logical !== null ? Math.round(logical) : null;
+
         if (param.point && !isDrawingsLocked) {
             const series = candlestickSeriesRef.current;
             if (!series) return;
@@ -697,37 +936,41 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
             return;
         }
         const index = Math.round(logical);
-        if (index < 0 || index >= heatmapData.length) {
+        if (!heatmapData || index < 0 || index >= heatmapData.length) {
             if(onCrosshairMove) onCrosshairMove(null);
             return;
         }
-        const snapshot = heatmapData[index];
-        if (!snapshot) {
+        const series = candlestickSeriesRef.current;
+        if (!series) return;
+        // Ignore the histogram sub-pane
+        if (param.paneIndex !== undefined && param.paneIndex !== 0) {
             if(onCrosshairMove) onCrosshairMove(null);
             return;
         }
-        const series = candlestickSeriesRef.current;
-        if (!series) return;
         const price = series.coordinateToPrice(param.point.y);
         if (price === null) {
             if(onCrosshairMove) onCrosshairMove(null);
             return;
         }
         
-        let closestBucket = null;
-        let minDiff = Infinity;
-        for (const b of snapshot.buckets) {
-            const diff = Math.abs(b.price - price);
-            if (diff < minDiff) {
-                minDiff = diff;
-                closestBucket = b;
-            }
-        }
-        if (closestBucket) {
+        // Direct row lookup on the grid
+        const row = priceToRow(heatmapData, price);
+        const longDensity = visibleSides.long ? getDensity(heatmapData, index, row, 'long') : 0;
+        const shortDensity = visibleSides.short ? getDensity(heatmapData, index, row, 'short') : 0;
+        const density = longDensity + shortDensity;
+        if (density > 0) {
+             const venues = venueLayers.map(layer => ({
+                 exchange: layer.exchange,
+                 density: (visibleSides.long ? getDensity(layer.grid, index, row, 'long') : 0)
+                     + (visibleSides.short ? getDensity(layer.grid, index, row, 'short') : 0)
+             }));
              if(onCrosshairMove) onCrosshairMove({
-                 price: closestBucket.price,
-                 density: closestBucket.density,
-                 normalizedDensity: closestBucket.density / globalMaxDensity
+                 price: rowToPrice(heatmapData, row),
+                 density,
+                 longDensity,
+                 shortDensity,
+                 normalizedDensity: Math.max(longDensity, shortDensity) / globalMaxDensity,
+                 venues: venues.length > 0 ? venues : undefined
              });
         } else {
              if(onCrosshairMove) onCrosshairMove(null);
@@ -736,7 +979,7 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
 
     chart.subscribeCrosshairMove(handleMove);
     return () => chart.unsubscribeCrosshairMove(handleMove);
-  }, [currentDrawing, heatmapData, globalMaxDensity, onCrosshairMove, getChartTime, activeTool, toolStyle, pointToCoordinate, isDrawingsLocked]);
+  }, [currentDrawing, heatmapData, venueLayers, globalMaxDensity, visibleSides, onCrosshairMove, getChartTime, activeTool, toolStyle, pointToCoordinate, isDrawingsLocked]);
 
   // Sync Horizontal Lines
   useEffect(() => {
@@ -769,6 +1012,43 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
     });
   }, [drawings]);
 
+  // Sync Cluster Lines (rebuilt on every recalculation)
+  useEffect(() => {
+    const series = candlestickSeriesRef.current;
+    if (!series) return;
+    clusterLinesRef.current.forEach(line => series.removePriceLine(line));
+    clusterLinesRef.current = clusters.map((c: LiquidationCluster) => series.createPriceLine({
+        price: c.price,
+        color: c.side === 'long' ? longTheme.extreme : shortTheme.extreme,
+        lineWidth: (c.strength > 0.75 ? 2 : 1) as 1|2,
+        lineStyle: 2,
+        axisLabelVisible: true,
+        title: `${c.side === 'long' ? 'Long' : 'Short'} ${(c.strength * 100).toFixed(0)}% · ${c.age}b`,
+    }));
+  }, [clusters, longTheme, shortTheme]);
+
+  // Mark the origin candles of the inspected cell (strongest contributions, one marker per candle and side)
+  useEffect(() => {
+    if (!provenanceMarkersRef.current) return;
+    const markers = new Map<string, SeriesMarker<Time>>();
+    (provenance ? provenance.contributions.slice(0, PROVENANCE_MARKER_COUNT) : []).forEach(c => {
+        const key = `${c.time}|${c.side}`;
+        const marker = markers.get(key);
+        if (marker) {
+            marker.text = `${marker.text}·${c.leverage}x`;
+            return;
+        }
+        markers.set(key, {
+            time: c.time as Time,
+            position: c.side === 'long' ? 'belowBar' : 'aboveBar',
+            shape: c.side === 'long' ? 'arrowUp' : 'arrowDown',
+            color: c.side === 'long' ? longTheme.extreme : shortTheme.extreme,
+            text: `${c.leverage}x`
+        });
+    });
+    provenanceMarkersRef.current.setMarkers([...markers.values()].sort((a, b) => (a.time as number) - (b.time as number)));
+  }, [provenance, longTheme, shortTheme]);
+
   // --- IMPERATIVE DRAWING UPDATE (Runs in RAF Loop) ---
   const updateDrawingsDOM = useCallback(() => {
     const all = [...drawingsStateRef.current];
@@ -1075,7 +1355,7 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
     const { width, height } = dimensionsRef.current;
     
     // 1. Heatmap Rendering
-    if (canvas && chart && series && heatmapData.length > 0 && width > 0 && height > 0) {
+    if (canvas && chart && series && heatmapData && heatmapData.length > 0 && width > 0 && height > 0) {
         const ctx = canvas.getContext('2d');
         if (ctx) {
             ctx.filter = 'none';
@@ -1084,74 +1364,252 @@ const LiquidationChart: React.FC<LiquidationChartProps> = React.memo(({
 
             const timeScale = chart.timeScale();
             const visibleRange = timeScale.getVisibleLogicalRange();
+            // Only paint inside the main price pane, not over the histogram sub-pane
+            const paneHeight = chart.paneSize(0).height || height;
+
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(0, 0, width, paneHeight);
+            ctx.clip();
             
             if (visibleRange) {
                 const maxVisPrice = series.coordinateToPrice(0);
-                const minVisPrice = series.coordinateToPrice(height);
+                const minVisPrice = series.coordinateToPrice(paneHeight);
 
                 if (minVisPrice !== null && maxVisPrice !== null) {
                     const startIndex = Math.max(0, Math.floor(visibleRange.from));
                     const endIndex = Math.min(heatmapData.length - 1, Math.ceil(visibleRange.to));
 
-                    let effectiveMaxDensity = globalMaxDensity;
+                    // Each layer is one side of one grid. Layers in the same group share a normalization.
+                    type Layer = { grid: HeatmapGrid; values: Float32Array; lut: string[]; fallback: string; group: number };
+                    const layers: Layer[] = [];
+                    const groupMax: number[] = [];
+                    const ageMode = colorMode === 'age' && heatmapData.ages !== null && diffBars === 0;
+                    if (diffBars > 0 || ageMode) {
+                        // Diff and age modes paint the blended grid themselves, below
+                    } else if (tierLayers.length > 0) {
+                        // Stacked per-leverage layers, each normalized by its own maximum
+                        tierLayers.forEach((layer, t) => {
+                            const style = getTierLayerStyle(tierLayerStyles, layer.leverage, t);
+                            if (!style.visible || !tierLUTs[t]) return;
+                            groupMax[t] = layer.maxDensity;
+                            if (visibleSides.long) layers.push({ grid: layer.grid, values: layer.grid.longDensity, lut: tierLUTs[t], fallback: style.color, group: t });
+                            if (visibleSides.short) layers.push({ grid: layer.grid, values: layer.grid.shortDensity, lut: tierLUTs[t], fallback: style.color, group: t });
+                        });
+                    } else {
+                        // Each visible side is painted with its own ramp; shorts go on top where they overlap
+                        groupMax[0] = globalMaxDensity;
+                        if (visibleSides.long) layers.push({ grid: heatmapData, values: heatmapData.longDensity, lut: longColorLUT, fallback: longTheme.low, group: 0 });
+                        if (visibleSides.short) layers.push({ grid: heatmapData, values: heatmapData.shortDensity, lut: shortColorLUT, fallback: shortTheme.low, group: 0 });
+                    }
+                    // Rows overlapping the visible price range (heights vary on a log grid; the pane clip trims the edges)
+                    const minRow = priceToRow(heatmapData, minVisPrice);
+                    const maxRow = priceToRow(heatmapData, maxVisPrice);
+
                     if (localNormalization) {
-                        let max = 0;
-                        for (let i = startIndex; i <= endIndex; i++) {
-                            const snapshot = heatmapData[i];
-                            if (!snapshot) continue;
-                            for(const b of snapshot.buckets) {
-                                if (b.price >= minVisPrice && b.price <= maxVisPrice) {
-                                    if(b.density > max) max = b.density;
+                        const localMax: number[] = [];
+                        for (const { grid, values, group } of layers) {
+                            const { rowStart, rowEnd, offsets } = grid;
+                            let max = localMax[group] || 0;
+                            for (let i = startIndex; i <= endIndex && i < grid.length; i++) {
+                                const from = Math.max(rowStart[i], minRow);
+                                const to = Math.min(rowEnd[i] - 1, maxRow);
+                                const base = offsets[i] - rowStart[i];
+                                for (let r = from; r <= to; r++) {
+                                    if (values[base + r] > max) max = values[base + r];
                                 }
                             }
+                            localMax[group] = max;
                         }
-                        if (max > 0) effectiveMaxDensity = max;
+                        localMax.forEach((max, group) => {
+                            if (max > 0) groupMax[group] = max;
+                        });
                     }
 
                     const barWidth = timeScale.options().barSpacing;
                     const rectWidth = Math.max(1, Math.ceil(barWidth)); 
                     const striding = rectWidth < 1 ? Math.ceil(1 / rectWidth) : 1;
                     
-                    for (let i = startIndex; i <= endIndex; i += striding) {
-                        const snapshot = heatmapData[i];
-                        if (!snapshot) continue;
-
-                        const x = Math.round(timeScale.logicalToCoordinate(i as Logical) as number);
-                        if (x < -rectWidth || x > width + rectWidth) continue; 
-
-                        const buckets = snapshot.buckets;
-                        for (let j = 0; j < buckets.length; j++) {
-                            const bucket = buckets[j];
-                            if (bucket.price < minVisPrice || bucket.price > maxVisPrice) continue;
-                            const rawNormalizedDensity = bucket.density / effectiveMaxDensity;
-                            if (rawNormalizedDensity < noiseFilter) continue;
-
-                            let effectiveDensity = rawNormalizedDensity * sensitivity;
-                            if (effectiveDensity > 1) effectiveDensity = 1;
-
-                            const lutIndex = Math.floor(effectiveDensity * 100);
-                            ctx.fillStyle = colorLUT[lutIndex] || theme.low;
-
-                            const yBottom = series.priceToCoordinate(bucket.price);
-                            const yTop = series.priceToCoordinate(bucket.price + bucketSize);
-                            
-                            const h = (yBottom ?? 0) - (yTop ?? 0);
-                            const y = yTop ?? 0;
-
-                            if (yBottom !== null && yTop !== null) {
-                                ctx.fillRect(x - rectWidth/2, y, rectWidth, Math.max(1, h));
+                    for (const { grid, values, lut, fallback, group } of layers) {
+                        const { rowStart, rowEnd, offsets } = grid;
+                        const effectiveMaxDensity = groupMax[group];
+
+                        // Paints column i of the grid at logical position `logical`
+                        const paintColumn = (i: number, logical: number) => {
+                            const coordinate = timeScale.logicalToCoordinate(logical as Logical);
+                            if (coordinate === null) return;
+                            const x = Math.round(coordinate);
+                            if (x < -rectWidth || x > width + rectWidth) return;
+
+                            const from = Math.max(rowStart[i], minRow);
+                            const to = Math.min(rowEnd[i] - 1, maxRow);
+                            const base = offsets[i] - rowStart[i];
+                            for (let r = from; r <= to; r++) {
+                                const cellDensity = values[base + r];
+                                if (cellDensity <= 0) continue;
+                                const rawNormalizedDensity = cellDensity / effectiveMaxDensity;
+                                if (rawNormalizedDensity < noiseFilter) continue;
+
+                                let effectiveDensity = rawNormalizedDensity * sensitivity;
+                                if (effectiveDensity > 1) effectiveDensity = 1;
+
+                                const lutIndex = Math.floor(effectiveDensity * 100);
+                                ctx.fillStyle = lut[lutIndex] || fallback;
+
+                                const yBottom = series.priceToCoordinate(rowToPrice(grid, r));
+                                const yTop = series.priceToCoordinate(rowToPrice(grid, r + 1));
+                                
+                                const h = (yBottom ?? 0) - (yTop ?? 0);
+                                const y = yTop ?? 0;
+
+                                if (yBottom !== null && yTop !== null) {
+                                    ctx.fillRect(x - rectWidth/2, y, rectWidth, Math.max(1, h));
+                                }
                             }
+                        };
+
+                        for (let i = startIndex; i <= endIndex && i < grid.length; i += striding) {
+                            paintColumn(i, i);
                         }
+
+                        // Latest column carried into the whitespace right of price, fading out
+                        const lastColumn = grid.length - 1;
+                        if (projectionBars > 0 && lastColumn >= 0 && visibleRange.to > lastColumn) {
+                            const lastProjected = Math.min(projectionBars, Math.ceil(visibleRange.to) - lastColumn);
+                            for (let k = 1; k <= lastProjected; k += striding) {
+                                ctx.globalAlpha = 1 - k / (projectionBars + 1);
+                                paintColumn(lastColumn, lastColumn + k);
+                            }
+                            ctx.globalAlpha = 1;
+                        }
+                    }
+
+                    if (ageMode && heatmapData.ages) {
+                        const { rowStart, rowEnd, offsets, longDensity, shortDensity } = heatmapData;
+                        const ages = heatmapData.ages;
+                        const intervalSeconds = getIntervalSeconds(timeframe);
+                        const cellDensity = (index: number) =>
+                            (visibleSides.long ? longDensity[index] : 0) + (visibleSides.short ? shortDensity[index] : 0);
+
+                        // Both sides are summed per cell, so the global single-side maximum only bounds it loosely
+                        let maxDensity = globalMaxDensity;
+                        if (localNormalization) {
+                            let localMax = 0;
+                            for (let i = startIndex; i <= endIndex; i++) {
+                                const base = offsets[i] - rowStart[i];
+                                for (let r = Math.max(rowStart[i], minRow); r <= Math.min(rowEnd[i] - 1, maxRow); r++) {
+                                    const density = cellDensity(base + r);
+                                    if (density > localMax) localMax = density;
+                                }
+                            }
+                            if (localMax > 0) maxDensity = localMax;
+                        }
+
+                        for (let i = startIndex; i <= endIndex; i += striding) {
+                            const coordinate = timeScale.logicalToCoordinate(i as Logical);
+                            if (coordinate === null) continue;
+                            const x = Math.round(coordinate);
+                            if (x < -rectWidth || x > width + rectWidth) continue;
+
+                            const base = offsets[i] - rowStart[i];
+                            for (let r = Math.max(rowStart[i], minRow); r <= Math.min(rowEnd[i] - 1, maxRow); r++) {
+                                const density = cellDensity(base + r);
+                                if (density <= 0) continue;
+                                const normalized = density / maxDensity;
+                                if (normalized < noiseFilter) continue;
+
+                                const hueStep = Math.round(getAgeFraction(ages[base + r], intervalSeconds) * (AGE_HUE_STEPS - 1));
+                                const lutIndex = Math.floor(Math.min(1, normalized * sensitivity) * 100);
+                                ctx.fillStyle = AGE_LUT[hueStep][lutIndex];
+
+                                const yBottom = series.priceToCoordinate(rowToPrice(heatmapData, r));
+                                const yTop = series.priceToCoordinate(rowToPrice(heatmapData, r + 1));
+                                if (yBottom !== null && yTop !== null) {
+                                    ctx.fillRect(x - rectWidth/2, yTop, rectWidth, Math.max(1, yBottom - yTop));
+                                }
+                            }
+                        }
+                    }
+
+                    if (diffBars > 0) {
+                        // Change of the visible sides' density against the column diffBars earlier
+                        const diffAt = (i: number, r: number) => {
+                            let diff = 0;
+                            if (visibleSides.long) diff += getDensity(heatmapData, i, r, 'long') - getDensity(heatmapData, i - diffBars, r, 'long');
+                            if (visibleSides.short) diff += getDensity(heatmapData, i, r, 'short') - getDensity(heatmapData, i - diffBars, r, 'short');
+                            return diff;
+                        };
+                        // Both columns' row ranges, clipped to the visible prices
+                        const rowRange = (i: number) => ({
+                            from: Math.max(Math.min(heatmapData.rowStart[i], heatmapData.rowStart[i - diffBars]), minRow),
+                            to: Math.min(Math.max(heatmapData.rowEnd[i], heatmapData.rowEnd[i - diffBars]) - 1, maxRow)
+                        });
+                        const firstColumn = Math.max(startIndex, diffBars);
+
+                        // Always normalized by the largest visible change; the sign picks the ramp
+                        let maxDiff = 0;
+                        for (let i = firstColumn; i <= endIndex; i++) {
+                            const { from, to } = rowRange(i);
+                            for (let r = from; r <= to; r++) {
+                                const diff = Math.abs(diffAt(i, r));
+                                if (diff > maxDiff) maxDiff = diff;
+                            }
+                        }
+
+                        if (maxDiff > 0) {
+                            for (let i = firstColumn; i <= endIndex; i += striding) {
+                                const coordinate = timeScale.logicalToCoordinate(i as Logical);
+                                if (coordinate === null) continue;
+                                const x = Math.round(coordinate);
+                                if (x < -rectWidth || x > width + rectWidth) continue;
+
+                                const { from, to } = rowRange(i);
+                                for (let r = from; r <= to; r++) {
+                                    const diff = diffAt(i, r);
+                                    const normalized = Math.abs(diff) / maxDiff;
+                                    if (normalized === 0 || normalized < noiseFilter) continue;
+
+                                    const lutIndex = Math.floor(Math.min(1, normalized * sensitivity) * 100);
+                                    ctx.fillStyle = (diff > 0 ? DIFF_ADDED_LUT : DIFF_REMOVED_LUT)[lutIndex];
+
+                                    const yBottom = series.priceToCoordinate(rowToPrice(heatmapData, r));
+                                    const yTop = series.priceToCoordinate(rowToPrice(heatmapData, r + 1));
+                                    if (yBottom !== null && yTop !== null) {
+                                        ctx.fillRect(x - rectWidth/2, yTop, rectWidth, Math.max(1, yBottom - yTop));
+                                    }
+                                }
+                            }
+                        }
+                    }
+
+                    // Liquidation profile of the hovered (or latest) column
+                    const hovered = profileColumnRef.current;
+                    const profileColumn = hovered !== null && hovered >= 0 && hovered < heatmapData.length ? hovered : heatmapData.length - 1;
+                    if (candles.length > 0) {
+                        drawLiquidationProfile(ctx, {
+                            grid: heatmapData,
+                            column: profileColumn,
+                            isLatest: profileColumn === heatmapData.length - 1,
+                            series,
+                            rightEdge: chart.paneSize(0).width || width,
+                            minRow,
+                            maxRow,
+                            currentClose: candles[candles.length - 1].close,
+                            sides: visibleSides,
+                            longColor: longTheme.high,
+                            shortColor: shortTheme.high
+                        });
                     }
                 }
             }
+            ctx.restore();
         }
     }
     
     // 2. Synchronous Drawing DOM Update
     updateDrawingsDOM();
 
-  }, [heatmapData, globalMaxDensity, noiseFilter, sensitivity, theme, cloudMode, localNormalization, bucketSize, colorLUT, updateDrawingsDOM]);
+  }, [heatmapData, candles, tierLayers, tierLayerStyles, globalMaxDensity, noiseFilter, sensitivity, longTheme, shortTheme, visibleSides, cloudMode, localNormalization, projectionBars, diffBars, colorMode, timeframe, longColorLUT, shortColorLUT, tierLUTs, updateDrawingsDOM]);
 
   useEffect(() => {
     let animationFrameId: number;
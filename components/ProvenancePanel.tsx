@@ -0,0 +1,73 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { CellProvenance } from '../types';
+
+interface ProvenancePanelProps {
+    provenance: CellProvenance;
+    onClose: () => void;
+}
+
+// Rows listed; the rest is summarized in one line
+const MAX_ROWS = 12;
+
+const formatTime = (time: number) => new Date(time * 1000).toISOString().slice(0, 16).replace('T', ' ');
+
+const ProvenancePanel: React.FC<ProvenancePanelProps> = ({ provenance, onClose }) => {
+    const { contributions, total } = provenance;
+    const hidden = contributions.slice(MAX_ROWS);
+    const hiddenWeight = hidden.reduce((sum, c) => sum + c.weight, 0);
+
+    return (
+        <div className="bg-[#050505]/90 backdrop-blur-md p-4 rounded border border-white/10 shadow-2xl w-[380px] max-w-[90vw] flex flex-col gap-3">
+            <div className="flex items-center justify-between border-b border-white/5 pb-2">
+                <div className="flex items-center gap-2">
+                    <History size={12} className="text-blue-400" />
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-[0.2em]">Level Provenance</span>
+                </div>
+                <button onClick={onClose} className="text-gray-600 hover:text-gray-300 transition-colors" title="Close">
+                    <X size={14} />
+                </button>
+            </div>
+
+            <div className="flex justify-between text-[10px] font-mono text-gray-500">
+                <span>${provenance.priceLow.toFixed(2)} – ${provenance.priceHigh.toFixed(2)}</span>
+                <span>@ {formatTime(provenance.time)}</span>
+            </div>
+
+            {contributions.length === 0 ? (
+                <div className="text-xs text-gray-600 italic text-center py-2">No active levels in this bucket.</div>
+            ) : (
+                <table className="w-full text-[10px] font-mono">
+                    <thead>
+                        <tr className="text-gray-500 uppercase text-left">
+                            <th className="font-normal pb-1">Origin</th>
+                            <th className="font-normal pb-1">Side</th>
+                            <th className="font-normal pb-1 text-right">Lev</th>
+                            <th className="font-normal pb-1 text-right">Age</th>
+                            <th className="font-normal pb-1 text-right">Share</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {contributions.slice(0, MAX_ROWS).map(c => (
+                            <tr key={`${c.time}-${c.side}-${c.leverage}`} className="text-gray-300 border-t border-white/5">
+                                <td className="py-1 text-gray-400">{formatTime(c.time)}</td>
+                                <td className={`py-1 ${c.side === 'long' ? 'text-red-400' : 'text-green-400'}`}>{c.side}</td>
+                                <td className="py-1 text-right">{c.leverage}x</td>
+                                <td className="py-1 text-right">{c.age}b</td>
+                                <td className="py-1 text-right text-white">{(c.weight / total * 100).toFixed(1)}%</td>
+                            </tr>
+                        ))}
+                        {hidden.length > 0 && (
+                            <tr className="text-gray-600 border-t border-white/5">
+                                <td className="py-1 italic" colSpan={4}>{hidden.length} more</td>
+                                <td className="py-1 text-right">{(hiddenWeight / total * 100).toFixed(1)}%</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default ProvenancePanel;
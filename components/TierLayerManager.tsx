@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { SquareStack, Eye, EyeOff } from 'lucide-react';
+import { TierLayerStyle, TierLayerStyles } from '../types';
+import { getTierLayerStyle } from '../utils/tierLayerStyles';
+
+interface TierLayerManagerProps {
+    leverages: number[];
+    styles: TierLayerStyles;
+    setStyles: (s: TierLayerStyles) => void;
+    enabled: boolean;
+    setEnabled: (b: boolean) => void;
+}
+
+const TierLayerManager: React.FC<TierLayerManagerProps> = ({
+    leverages,
+    styles,
+    setStyles,
+    enabled,
+    setEnabled
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const updateStyle = (leverage: number, index: number, patch: Partial<TierLayerStyle>) => {
+        setStyles({ ...styles, [leverage]: { ...getTierLayerStyle(styles, leverage, index), ...patch } });
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`p-1.5 rounded border transition-all ${
+                    enabled
+                    ? 'bg-blue-500/10 border-blue-500/40 text-blue-400 shadow-[0_0_15px_rgba(59,130,246,0.2)]'
+                    : 'bg-white/5 border-white/5 text-gray-500 hover:text-gray-300 hover:bg-white/10'
+                }`}
+                title="Leverage Layers"
+            >
+                <SquareStack size={16} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute top-full left-0 mt-2 w-64 bg-[#0a0a0a] border border-white/10 rounded-md shadow-[0_10px_40px_rgba(0,0,0,0.5)] z-[60] p-3 flex flex-col gap-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Leverage Layers</span>
+                        <label className="flex items-center gap-2 text-[10px] text-gray-500 uppercase tracking-wider cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={enabled}
+                                onChange={(e) => setEnabled(e.target.checked)}
+                                className="accent-blue-500"
+                            />
+                            Stacked
+                        </label>
+                    </div>
+
+                    <div className={`flex flex-col gap-2 ${enabled ? '' : 'opacity-40'}`}>
+                        {leverages.map((leverage, index) => {
+                            const style = getTierLayerStyle(styles, leverage, index);
+                            return (
+                                <div key={leverage} className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => updateStyle(leverage, index, { visible: !style.visible })}
+                                        className={`transition-colors ${style.visible ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-400'}`}
+                                        title={style.visible ? 'Hide Layer' : 'Show Layer'}
+                                    >
+                                        {style.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+                                    </button>
+                                    <span className="text-xs font-mono text-gray-300 w-10">{leverage}x</span>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="1"
+                                        step="0.05"
+                                        value={style.opacity}
+                                        onChange={(e) => updateStyle(leverage, index, { opacity: parseFloat(e.target.value) })}
+                                        className="flex-1 h-5 cursor-pointer"
+                                        title="Opacity"
+                                    />
+                                    <div className="relative w-4 h-4 rounded-full border border-white/20 cursor-pointer">
+                                        <div className="absolute inset-0 w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: style.color }}></div>
+                                        <input
+                                            type="color"
+                                            value={style.color}
+                                            onChange={(e) => updateStyle(leverage, index, { color: e.target.value })}
+                                            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer p-0 m-0"
+                                        />
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TierLayerManager;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Combine } from 'lucide-react';
+import { ExchangeId, VenueShare } from '../types';
+
+interface VenueMixEditorProps {
+    venues: VenueShare[];
+    setVenues: (v: VenueShare[]) => void;
+    enabled: boolean;
+    setEnabled: (b: boolean) => void;
+    exchanges: { id: ExchangeId; label: string }[];
+    supportedExchanges: ExchangeId[]; // Venues offering the selected timeframe and symbol
+}
+
+const VenueMixEditor: React.FC<VenueMixEditorProps> = ({
+    venues,
+    setVenues,
+    enabled,
+    setEnabled,
+    exchanges,
+    supportedExchanges
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const isActive = (v: VenueShare) => v.weight > 0 && supportedExchanges.includes(v.exchange);
+    const totalWeight = venues.filter(isActive).reduce((sum, v) => sum + v.weight, 0);
+
+    const updateWeight = (exchange: ExchangeId, weight: number) => {
+        setVenues(venues.map(v => v.exchange === exchange ? { ...v, weight } : v));
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`p-1.5 rounded border transition-all ${
+                    enabled
+                    ? 'bg-blue-500/10 border-blue-500/40 text-blue-400 shadow-[0_0_15px_rgba(59,130,246,0.2)]'
+                    : 'bg-white/5 border-white/5 text-gray-500 hover:text-gray-300 hover:bg-white/10'
+                }`}
+                title="Aggregate Venues"
+            >
+                <Combine size={16} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute top-full left-0 mt-2 w-64 bg-[#0a0a0a] border border-white/10 rounded-md shadow-[0_10px_40px_rgba(0,0,0,0.5)] z-[60] p-3 flex flex-col gap-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Venue Mix</span>
+                        <label className="flex items-center gap-2 text-[10px] text-gray-500 uppercase tracking-wider cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={enabled}
+                                onChange={(e) => setEnabled(e.target.checked)}
+                                className="accent-blue-500"
+                            />
+                            Active
+                        </label>
+                    </div>
+
+                    <div className={`flex flex-col gap-2 ${enabled ? '' : 'opacity-40'}`}>
+                        {venues.map(v => {
+                            const supported = supportedExchanges.includes(v.exchange);
+                            return (
+                                <div key={v.exchange} className={`flex items-center gap-2 ${supported ? '' : 'opacity-40'}`}>
+                                    <span className="text-xs font-mono text-gray-300 w-16 truncate">
+                                        {exchanges.find(e => e.id === v.exchange)?.label ?? v.exchange}
+                                    </span>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="100"
+                                        step="1"
+                                        value={v.weight}
+                                        onChange={(e) => updateWeight(v.exchange, parseFloat(e.target.value))}
+                                        disabled={!supported}
+                                        className="flex-1 h-5 cursor-pointer"
+                                    />
+                                    <span className="text-[10px] font-mono text-gray-500 w-9 text-right">
+                                        {supported ? (totalWeight > 0 && v.weight > 0 ? ((v.weight / totalWeight) * 100).toFixed(0) : 0) + '%' : 'n/a'}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="text-[10px] text-gray-600 border-t border-white/5 pt-2">
+                        Volume is normalized per venue; shares set each venue's weight.
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VenueMixEditor;
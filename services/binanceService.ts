@@ -1,9 +1,12 @@
 import { Candle, Timeframe } from '../types';
+import { FetchFn, KlineStream, KlineStreamHandlers, KlineStreamOptions, MarketDataProvider, ALL_TIMEFRAMES, delay, createThrottle, fetchJsonWithRetry } from './marketData';
 
 const FAPI_URL = 'https://fapi.binance.com/fapi/v1';
 const SPOT_URL = 'https://api.binance.com/api/v3';
+const FSTREAM_URL = 'wss://fstream.binance.com/ws';
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Futures klines: up to 1500 per request
+const RATE_LIMIT = { minRequestIntervalMs: 20, maxKlinesPerRequest: 1500 };
 
 // Helper to map Futures symbols to Spot symbols (e.g. 1000PEPEUSDT -> PEPEUSDT)
 const mapToSpotSymbol = (symbol: string): string => {
@@ -13,27 +16,35 @@ const mapToSpotSymbol = (symbol: string): string => {
   return symbol;
 };
 
-export const fetchExchangeSymbols = async (): Promise<string[]> => {
-  try {
-    const response = await fetch(`${FAPI_URL}/exchangeInfo`);
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    return data.symbols
-        .filter((s: any) => s.contractType === 'PERPETUAL' && s.quoteAsset === 'USDT' && s.status === 'TRADING')
-        .map((s: any) => s.symbol)
-        .sort();
-  } catch (error) {
-    console.error("Failed to fetch symbols:", error);
-    return [];
-  }
-};
+// Kline layout: [openTime, open, high, low, close, volume, closeTime, quoteVolume, trades, takerBuyBase, takerBuyQuote, ignore]
+const parseKline = (d: any[]): Candle => ({
+  time: d[0] / 1000,
+  open: parseFloat(d[1]),
+  high: parseFloat(d[2]),
+  low: parseFloat(d[3]),
+  close: parseFloat(d[4]),
+  volume: parseFloat(d[5]),
+  takerBuyVolume: parseFloat(d[9]),
+  trades: d[8],
+});
 
-export const fetchCandles = async (symbol: string, interval: Timeframe, totalLimit: number = 500): Promise<Candle[]> => {
+/**
+ * Downloads raw kline batches, newest batch first (each batch is oldest -> newest).
+ * With `before` (seconds), only candles opened before that time are fetched.
+ * Parsing is left to the caller so it can run off the main thread. Failed requests throw instead
+ * of returning the batches so far: fewer candles than requested means the history ran out.
+ */
+export const fetchKlineChunks = async (
+  symbol: string,
+  interval: Timeframe,
+  totalLimit: number = 500,
+  before?: number,
+  fetchFn: FetchFn = fetch
+): Promise<any[][]> => {
   // OPTIMIZATION: Store raw data arrays instead of objects to save memory during massive fetches
   const rawChunks: any[][] = [];
   let remaining = totalLimit;
-  let endTime: number | undefined;
+  let endTime: number | undefined = before !== undefined ? before * 1000 - 1 : undefined;
   
   const MAX_BATCHES = 100000; // Increased to 100k batches (approx 100m candles capacity)
   let batchCount = 0;
@@ -82,7 +93,7 @@ export const fetchCandles = async (symbol: string, interval: Timeframe, totalLim
                 const controller = new AbortController();
                 const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s Timeout
 
-                response = await fetch(url, { signal: controller.signal });
+                response = await fetchFn(url, { signal: controller.signal });
                 clearTimeout(timeoutId);
                 
                 // Update weight from headers
@@ -102,8 +113,8 @@ export const fetchCandles = async (symbol: string, interval: Timeframe, totalLim
                 }
                 
                 if (response.status === 400 || response.status === 404) {
-                    // If Spot returns 400, it likely means the symbol doesn't exist or we went too far back
-                    // console.warn(`[Binance API] Resource not found (Status ${response.status}). Stopping.`);
+                    // If Spot returns 400, it likely means the symbol doesn't exist or we went too far back.
+                    // On futures it is a bad request (unknown symbol or interval)
                     stopFetching = true;
                     break;
                 }
@@ -129,12 +140,12 @@ export const fetchCandles = async (symbol: string, interval: Timeframe, totalLim
         }
         
         if (stopFetching) {
+            if (!useSpot) throw new Error(`klines failed: ${response!.status}`);
             break;
         }
 
         if (!response || !success) {
-             console.error("Failed to fetch batch after multiple attempts. Returning partial data.");
-             break; 
+            throw new Error(`klines failed after ${maxAttempts} attempts${response ? ` (${response.status})` : ''}`);
         }
 
         // Use any to bypass strict type check on raw JSON array
@@ -177,52 +188,208 @@ export const fetchCandles = async (symbol: string, interval: Timeframe, totalLim
         await delay(throttle);
     }
     
-    // Process all raw chunks at the end
-    // Reverse chunks (Oldest -> Newest) and flatten
-    const result: Candle[] = [];
-    
-    // Iterate backwards through chunks (since we pushed Newest -> Oldest in the loop)
-    // Actually wait: We pushed [NewestBatch, OlderBatch...]
-    // Inside each batch: [OldestCandle...NewestCandle]
-    // So we want to process chunks from LAST to FIRST
-    for (let i = rawChunks.length - 1; i >= 0; i--) {
-        const chunk = rawChunks[i];
-        for (let j = 0; j < chunk.length; j++) {
-            const d = chunk[j];
-            result.push({
-                time: d[0] / 1000, 
-                open: parseFloat(d[1]),
-                high: parseFloat(d[2]),
-                low: parseFloat(d[3]),
-                close: parseFloat(d[4]),
-                volume: parseFloat(d[5]),
-            });
-        }
-    }
-
-    return result;
+    return rawChunks;
   } catch (error) {
+    // A partial history would pass for a complete one
     console.error("Failed to fetch candles:", error);
-    // Return partial data if available
-    if (rawChunks.length > 0) {
-        // Fallback processing
-        const result: Candle[] = [];
-        for (let i = rawChunks.length - 1; i >= 0; i--) {
-             const chunk = rawChunks[i];
-             for (let j = 0; j < chunk.length; j++) {
-                const d = chunk[j];
-                result.push({
-                    time: d[0] / 1000, 
-                    open: parseFloat(d[1]),
-                    high: parseFloat(d[2]),
-                    low: parseFloat(d[3]),
-                    close: parseFloat(d[4]),
-                    volume: parseFloat(d[5]),
-                });
-            }
-        }
-        return result;
-    }
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Downloads every kline from `startTime` (seconds, inclusive) up to now, in the same newest-batch-first
+ * layout as fetchKlineChunks. Used to top up a history we already hold without backfilling it.
+ * Throws once a request has exhausted its retries.
+ */
+export const fetchKlineChunksSince = async (
+  symbol: string,
+  interval: Timeframe,
+  startTime: number,
+  maxCandles: number = 100000,
+  fetchFn: FetchFn = fetch,
+  throttle: () => Promise<void> = createThrottle(RATE_LIMIT.minRequestIntervalMs)
+): Promise<any[][]> => {
+  const rawChunks: any[][] = [];
+  let from = Math.floor(startTime * 1000);
+  let fetched = 0;
+  const limit = RATE_LIMIT.maxKlinesPerRequest;
+
+  while (fetched < maxCandles) {
+    const url = `${FAPI_URL}/klines?symbol=${symbol}&interval=${interval}&startTime=${from}&limit=${limit}`;
+    const data = await fetchJsonWithRetry(fetchFn, url, throttle);
+
+    if (!Array.isArray(data) || data.length === 0) break;
+    rawChunks.unshift(data);
+    fetched += data.length;
+    if (data.length < limit) break;
+    from = data[data.length - 1][0] + 1;
+  }
+  return rawChunks;
+};
+
+// Iterates raw chunks from LAST to FIRST (we pushed [NewestBatch, OlderBatch...]), giving Oldest -> Newest
+const forEachKline = (rawChunks: any[][], fn: (d: any[], index: number) => void) => {
+  let index = 0;
+  for (let i = rawChunks.length - 1; i >= 0; i--) {
+    const chunk = rawChunks[i];
+    for (let j = 0; j < chunk.length; j++) {
+      fn(chunk[j], index++);
+    }
+  }
+};
+
+export const parseKlineChunks = (rawChunks: any[][]): Candle[] => {
+  const result: Candle[] = [];
+  forEachKline(rawChunks, d => result.push(parseKline(d)));
+  return result;
+};
+
+// Kline payload of a `<symbol>@kline_<interval>` event
+const parseStreamKline = (k: any): Candle => ({
+  time: k.t / 1000,
+  open: parseFloat(k.o),
+  high: parseFloat(k.h),
+  low: parseFloat(k.l),
+  close: parseFloat(k.c),
+  volume: parseFloat(k.v),
+  takerBuyVolume: parseFloat(k.V),
+  trades: k.n,
+});
+
+/**
+ * Subscribes to live klines. Every event carries the forming candle; `isClosed` marks its final
+ * update. Dropped connections are reopened with exponential backoff until `close` is called.
+ */
+export const subscribeKlineStream = (
+  symbol: string,
+  interval: Timeframe,
+  handlers: KlineStreamHandlers,
+  options: KlineStreamOptions = {}
+): KlineStream => {
+  const url = `${options.url || FSTREAM_URL}/${symbol.toLowerCase()}@kline_${interval}`;
+  const createSocket = options.createSocket || ((u: string) => new WebSocket(u));
+  const minBackoff = options.minBackoffMs ?? 1000;
+  const maxBackoff = options.maxBackoffMs ?? 30000;
+
+  let socket: WebSocket | null = null;
+  let backoff = minBackoff;
+  let reconnectId: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = () => {
+    socket = createSocket(url);
+
+    socket.onopen = () => {
+      backoff = minBackoff;
+      handlers.onStatus?.('open');
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        const msg = JSON.parse(event.data);
+        if (msg.e !== 'kline' || !msg.k) return;
+        handlers.onCandle(parseStreamKline(msg.k), msg.k.x === true);
+      } catch (error) {
+        console.error("Invalid kline stream message:", error);
+      }
+    };
+
+    // onerror is always followed by onclose
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      handlers.onStatus?.('reconnecting');
+      reconnectId = setTimeout(connect, backoff);
+      backoff = Math.min(backoff * 2, maxBackoff);
+    };
+  };
+
+  handlers.onStatus?.('connecting');
+  connect();
+
+  return {
+    close: () => {
+      closed = true;
+      if (reconnectId !== null) clearTimeout(reconnectId);
+      socket?.close();
+      socket = null;
+      handlers.onStatus?.('closed');
+    }
+  };
+};
+
+/**
+ * Binance USDⓈ-M futures. Histories older than the futures listing continue with spot klines
+ * (see fetchKlineChunks); live klines come from the futures stream.
+ */
+export const createBinanceProvider = (fetchFn: FetchFn = fetch): MarketDataProvider => {
+  const throttle = createThrottle(RATE_LIMIT.minRequestIntervalMs);
+
+  // exchangeInfo is large; symbol names and tick sizes share a single request
+  let perpetualSymbolsPromise: Promise<any[]> | null = null;
+
+  const fetchPerpetualSymbols = (): Promise<any[]> => {
+    if (!perpetualSymbolsPromise) {
+      perpetualSymbolsPromise = (async () => {
+        const response = await fetchFn(`${FAPI_URL}/exchangeInfo`);
+        if (!response.ok) throw new Error(`exchangeInfo failed: ${response.status}`);
+
+        const data = await response.json();
+        return data.symbols
+            .filter((s: any) => s.contractType === 'PERPETUAL' && s.quoteAsset === 'USDT' && s.status === 'TRADING');
+      })();
+      // Allow a retry on the next call
+      perpetualSymbolsPromise.catch(() => { perpetualSymbolsPromise = null; });
+    }
+    return perpetualSymbolsPromise;
+  };
+
+  return {
+    id: 'binance',
+    label: 'Binance',
+    rateLimit: RATE_LIMIT,
+    timeframes: ALL_TIMEFRAMES,
+    // Futures symbols already are canonical
+    toExchangeSymbol: symbol => symbol,
+    fromExchangeSymbol: symbol => symbol,
+
+    fetchSymbols: async () => {
+      try {
+        const symbols = await fetchPerpetualSymbols();
+        return symbols
+            .map((s: any) => s.symbol)
+            .sort();
+      } catch (error) {
+        console.error("Failed to fetch symbols:", error);
+        return [];
+      }
+    },
+
+    listsSymbol: async symbol => (await fetchPerpetualSymbols()).some((s: any) => s.symbol === symbol),
+
+    // Price tick size per symbol, from the PRICE_FILTER of each contract
+    fetchTickSizes: async () => {
+      try {
+        const symbols = await fetchPerpetualSymbols();
+        const tickSizes: { [symbol: string]: number } = {};
+        for (const s of symbols) {
+          const filter = (s.filters || []).find((f: any) => f.filterType === 'PRICE_FILTER');
+          const tickSize = filter ? parseFloat(filter.tickSize) : NaN;
+          if (tickSize > 0) tickSizes[s.symbol] = tickSize;
+        }
+        return tickSizes;
+      } catch (error) {
+        console.error("Failed to fetch tick sizes:", error);
+        return {};
+      }
+    },
+
+    fetchCandles: async (symbol, interval, limit, before) =>
+      parseKlineChunks(await fetchKlineChunks(symbol, interval, limit, before, fetchFn)),
+
+    fetchCandlesSince: async (symbol, interval, startTime, maxCandles) =>
+      parseKlineChunks(await fetchKlineChunksSince(symbol, interval, startTime, maxCandles, fetchFn, throttle)),
+
+    subscribeKlines: (symbol, interval, handlers, options) => subscribeKlineStream(symbol, interval, handlers, options)
+  };
+};
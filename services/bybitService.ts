@@ -0,0 +1,113 @@
+import { Candle, Timeframe } from '../types';
+import { FetchFn, MarketDataProvider, createThrottle, fetchJsonWithRetry, fetchCandlesBackward } from './marketData';
+
+const API_URL = 'https://api.bybit.com/v5';
+
+// Bybit has no 8h or 3d klines
+const INTERVALS: Partial<Record<Timeframe, string>> = {
+  '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30',
+  '1h': '60', '2h': '120', '4h': '240', '6h': '360', '12h': '720',
+  '1d': 'D', '1w': 'W', '1M': 'M'
+};
+
+const PAGE_LIMIT = 1000;
+
+// Kline layout: [startTime, open, high, low, close, volume, turnover], strings, newest first.
+// No taker split or trade count is reported.
+const parseKline = (d: string[]): Candle => ({
+  time: parseInt(d[0], 10) / 1000,
+  open: parseFloat(d[1]),
+  high: parseFloat(d[2]),
+  low: parseFloat(d[3]),
+  close: parseFloat(d[4]),
+  volume: parseFloat(d[5]),
+});
+
+/**
+ * Bybit USDT linear perpetuals (v5 API). Symbols use the same BASEQUOTE naming as Binance.
+ */
+export const createBybitProvider = (fetchFn: FetchFn = fetch): MarketDataProvider => {
+  const rateLimit = { minRequestIntervalMs: 50, maxKlinesPerRequest: PAGE_LIMIT };
+  const throttle = createThrottle(rateLimit.minRequestIntervalMs);
+
+  // Unwraps the { retCode, retMsg, result } envelope
+  const get = async (path: string): Promise<any> => {
+    const data = await fetchJsonWithRetry(fetchFn, `${API_URL}${path}`, throttle);
+    if (data.retCode !== 0) throw new Error(`Bybit ${path} failed: ${data.retMsg}`);
+    return data.result;
+  };
+
+  let instrumentsPromise: Promise<any[]> | null = null;
+
+  const fetchInstruments = (): Promise<any[]> => {
+    if (!instrumentsPromise) {
+      instrumentsPromise = (async () => {
+        const instruments: any[] = [];
+        let cursor = '';
+        do {
+          const result = await get(`/market/instruments-info?category=linear&limit=1000${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`);
+          instruments.push(...result.list);
+          cursor = result.nextPageCursor || '';
+        } while (cursor);
+        return instruments.filter(s => s.contractType === 'LinearPerpetual' && s.quoteCoin === 'USDT' && s.status === 'Trading');
+      })();
+      // Allow a retry on the next call
+      instrumentsPromise.catch(() => { instrumentsPromise = null; });
+    }
+    return instrumentsPromise;
+  };
+
+  const fetchPage = async (symbol: string, interval: Timeframe, end: number | undefined): Promise<Candle[]> => {
+    const bybitInterval = INTERVALS[interval];
+    if (!bybitInterval) throw new Error(`Bybit has no ${interval} klines`);
+
+    // `end` is inclusive and in milliseconds
+    let path = `/market/kline?category=linear&symbol=${symbol}&interval=${bybitInterval}&limit=${PAGE_LIMIT}`;
+    if (end !== undefined) path += `&end=${end * 1000 - 1}`;
+    const result = await get(path);
+    return (result.list as string[][]).map(parseKline).reverse();
+  };
+
+  return {
+    id: 'bybit',
+    label: 'Bybit',
+    rateLimit,
+    timeframes: Object.keys(INTERVALS) as Timeframe[],
+    toExchangeSymbol: symbol => symbol,
+    fromExchangeSymbol: symbol => symbol,
+
+    fetchSymbols: async () => {
+      try {
+        const instruments = await fetchInstruments();
+        return instruments.map(s => s.symbol).sort();
+      } catch (error) {
+        console.error("Failed to fetch Bybit symbols:", error);
+        return [];
+      }
+    },
+
+    listsSymbol: async symbol => (await fetchInstruments()).some(s => s.symbol === symbol),
+
+    fetchTickSizes: async () => {
+      try {
+        const instruments = await fetchInstruments();
+        const tickSizes: { [symbol: string]: number } = {};
+        for (const s of instruments) {
+          const tickSize = parseFloat(s.priceFilter?.tickSize);
+          if (tickSize > 0) tickSizes[s.symbol] = tickSize;
+        }
+        return tickSizes;
+      } catch (error) {
+        console.error("Failed to fetch Bybit tick sizes:", error);
+        return {};
+      }
+    },
+
+    fetchCandles: (symbol, interval, limit, before) =>
+      fetchCandlesBackward(end => fetchPage(symbol, interval, end), limit, before),
+
+    // The kline endpoint pages backwards only, so walk back from now to `startTime`
+    fetchCandlesSince: (symbol, interval, startTime, maxCandles = 100000) =>
+      fetchCandlesBackward(end => fetchPage(symbol, interval, end), maxCandles, undefined, startTime)
+  };
+};
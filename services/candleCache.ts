@@ -0,0 +1,170 @@
+import { Candle, CandleColumns, Timeframe } from '../types';
+import { MarketDataProvider, mergeCandles } from './marketData';
+import { packCandles, unpackCandles } from '../utils/candleColumns';
+
+const DB_NAME = 'liqmap-candle-cache';
+const DB_VERSION = 1;
+const SERIES_STORE = 'series'; // Candle columns per key
+const META_STORE = 'meta'; // Small records scanned for eviction
+
+// Least recently used series are evicted beyond either limit
+const MAX_CACHED_SERIES = 24;
+const MAX_CACHED_CANDLES = 4_000_000;
+
+interface CachedSeries {
+  key: string;
+  candles: CandleColumns;
+  complete: boolean; // The exchange returned nothing before the first cached candle
+}
+
+interface CacheMeta {
+  key: string;
+  count: number;
+  accessedAt: number;
+}
+
+export const getCacheKey = (source: string, symbol: string, interval: Timeframe) => `${source}:${symbol}:${interval}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SERIES_STORE, { keyPath: 'key' });
+        request.result.createObjectStore(META_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const readSeries = async (key: string): Promise<CachedSeries | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SERIES_STORE, 'readonly');
+  const series = await requestToPromise<CachedSeries | undefined>(tx.objectStore(SERIES_STORE).get(key));
+  return series ?? null;
+};
+
+const writeSeries = async (series: CachedSeries) => {
+  const db = await openDatabase();
+  const tx = db.transaction([SERIES_STORE, META_STORE], 'readwrite');
+  tx.objectStore(SERIES_STORE).put(series);
+  tx.objectStore(META_STORE).put({ key: series.key, count: series.candles.length, accessedAt: Date.now() } as CacheMeta);
+  await transactionDone(tx);
+};
+
+// Drops least recently used series until both limits hold (the most recent one always stays)
+const evict = async () => {
+  const db = await openDatabase();
+  const metas = await requestToPromise<CacheMeta[]>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll());
+  metas.sort((a, b) => b.accessedAt - a.accessedAt);
+
+  let total = 0;
+  const stale = metas.filter((meta, i) => {
+    total += meta.count;
+    return i > 0 && (i >= MAX_CACHED_SERIES || total > MAX_CACHED_CANDLES);
+  });
+  if (stale.length === 0) return;
+
+  const tx = db.transaction([SERIES_STORE, META_STORE], 'readwrite');
+  for (const meta of stale) {
+    tx.objectStore(SERIES_STORE).delete(meta.key);
+    tx.objectStore(META_STORE).delete(meta.key);
+  }
+  await transactionDone(tx);
+};
+
+export const clearCandleCache = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction([SERIES_STORE, META_STORE], 'readwrite');
+  tx.objectStore(SERIES_STORE).clear();
+  tx.objectStore(META_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Latest `limit` candles from `provider`, served from IndexedDB where possible. Only the candles after
+ * the cached range and, if the cache is too short, before it are downloaded. A cache that is
+ * further behind than `limit` bars is treated as cold. Cache failures fall back to a full download;
+ * download failures fall back to the cached candles, and reject only when there are none.
+ */
+export const fetchCandlesCached = async (
+  provider: MarketDataProvider,
+  symbol: string,
+  interval: Timeframe,
+  limit: number
+): Promise<CandleColumns> => {
+  const key = getCacheKey(provider.id, symbol, interval);
+
+  let cached: CachedSeries | null = null;
+  try {
+    cached = await readSeries(key);
+  } catch (error) {
+    console.error("Candle cache unavailable:", error);
+  }
+
+  const cachedCandles: Candle[] = cached ? unpackCandles(cached.candles) : [];
+  let candles = cachedCandles;
+  let complete = cached?.complete ?? false;
+
+  if (candles.length > 1) {
+    const last = candles[candles.length - 1].time;
+    const spacing = candles[candles.length - 1].time - candles[candles.length - 2].time;
+    const gapBars = spacing > 0 ? (Date.now() / 1000 - last) / spacing : Infinity;
+    if (gapBars >= limit) {
+      candles = [];
+      complete = false;
+    }
+  }
+
+  try {
+    // A short read (providers fail rather than return partial histories) means the history ran out
+    if (candles.length === 0) {
+      candles = await provider.fetchCandles(symbol, interval, limit);
+      complete = candles.length < limit;
+    } else {
+      // Tail: from the last cached (possibly still forming) candle onwards
+      const newer = await provider.fetchCandlesSince(symbol, interval, candles[candles.length - 1].time, limit);
+      candles = mergeCandles(candles, newer);
+
+      // Head: older history the cache never held
+      const missing = limit - candles.length;
+      if (missing > 0 && !complete) {
+        const older = await provider.fetchCandles(symbol, interval, missing, candles[0].time);
+        if (older.length < missing) complete = true;
+        candles = mergeCandles(older, candles);
+      }
+    }
+  } catch (error) {
+    // Offline or rate limited: serve what we hold (the cache, plus a tail that arrived); the next load tries again
+    if (candles.length === 0) candles = cachedCandles;
+    if (candles.length === 0) throw error;
+    console.error("Candle download failed, serving cached candles:", error);
+  }
+
+  try {
+    await writeSeries({ key, candles: packCandles(candles), complete });
+    await evict();
+  } catch (error) {
+    console.error("Failed to update candle cache:", error);
+  }
+
+  return packCandles(candles.length > limit ? candles.slice(candles.length - limit) : candles);
+};
@@ -0,0 +1,26 @@
+import { ExchangeId } from '../types';
+import { MarketDataProvider } from './marketData';
+import { createBinanceProvider } from './binanceService';
+import { createBybitProvider } from './bybitService';
+import { createOkxProvider } from './okxService';
+
+const factories: Record<ExchangeId, () => MarketDataProvider> = {
+  binance: createBinanceProvider,
+  bybit: createBybitProvider,
+  okx: createOkxProvider,
+};
+
+// Providers keep their symbol caches and throttles, so each thread shares one per venue
+const providers = new Map<ExchangeId, MarketDataProvider>();
+
+export const getMarketDataProvider = (id: ExchangeId): MarketDataProvider => {
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = factories[id]();
+    providers.set(id, provider);
+  }
+  return provider;
+};
+
+export const EXCHANGES: { id: ExchangeId; label: string }[] = (Object.keys(factories) as ExchangeId[])
+  .map(id => ({ id, label: getMarketDataProvider(id).label }));
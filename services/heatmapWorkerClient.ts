@@ -0,0 +1,149 @@
+import { Candle, CellProvenance, ExchangeId, Timeframe, LeverageTier, HeatmapOptions, HeatmapUpdate, HeatmapWorkerRequest, HeatmapWorkerResponse } from '../types';
+import { packCandles, unpackCandles, getCandleTransferables, getCandleReuse } from '../utils/candleColumns';
+
+export interface WorkerJob<T> {
+  promise: Promise<T | null>; // Resolves to null when the job was cancelled
+  cancel: () => void;
+}
+
+export interface HeatmapWorkerClient {
+  // With startTime (seconds), only candles from that open time onwards are fetched
+  loadCandles: (exchange: ExchangeId, symbol: string, interval: Timeframe, limit: number, startTime?: number) => WorkerJob<Candle[]>;
+  computeHeatmap: (
+    candles: Candle[],
+    leverageTiers: LeverageTier[],
+    bucketSize: number,
+    options: HeatmapOptions,
+    engineKey: string,
+    onProgress?: (progress: number) => void
+  ) => WorkerJob<HeatmapUpdate>;
+  // Origin of the cell at `time` and `price` in the grid of the engine with `engineKey`; null provenance if there is no such cell
+  traceProvenance: (engineKey: string, time: number, price: number) => WorkerJob<CellProvenance | null>;
+  terminate: () => void;
+}
+
+interface PendingJob {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Spawns the heatmap worker. Candle download/parsing and heatmap calculation run there,
+ * candles cross the thread boundary as transferable typed arrays.
+ */
+export const createHeatmapWorkerClient = (): HeatmapWorkerClient => {
+  const worker = new Worker(new URL('../workers/heatmapWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingJob>();
+  let nextJobId = 1;
+  // History the worker's engine holds once the last compute job completes
+  let held: { engineKey: string; candles: Candle[] } | null = null;
+
+  worker.onmessage = (e: MessageEvent<HeatmapWorkerResponse>) => {
+    const msg = e.data;
+    const job = pending.get(msg.jobId);
+    if (!job) return;
+
+    switch (msg.type) {
+      case 'progress':
+        job.onProgress?.(msg.progress);
+        return;
+      case 'candles':
+        pending.delete(msg.jobId);
+        job.resolve(unpackCandles(msg.candles));
+        return;
+      case 'heatmap':
+        pending.delete(msg.jobId);
+        job.resolve(msg.update);
+        return;
+      case 'provenance':
+        pending.delete(msg.jobId);
+        job.resolve(msg.provenance);
+        return;
+      case 'cancelled':
+        pending.delete(msg.jobId);
+        job.resolve(null);
+        return;
+      case 'error':
+        pending.delete(msg.jobId);
+        job.reject(new Error(msg.message));
+        return;
+    }
+  };
+
+  const startJob = <T>(
+    buildRequest: (jobId: number) => { request: HeatmapWorkerRequest; transfer: Transferable[] },
+    onProgress?: (progress: number) => void
+  ): WorkerJob<T> => {
+    const jobId = nextJobId++;
+    const promise = new Promise<T | null>((resolve, reject) => {
+      pending.set(jobId, { resolve, reject, onProgress });
+    });
+
+    const { request, transfer } = buildRequest(jobId);
+    worker.postMessage(request, transfer);
+
+    const cancel = () => {
+      const job = pending.get(jobId);
+      if (!job) return;
+      // Settle immediately; the worker acknowledges later but nobody is waiting for it
+      pending.delete(jobId);
+      job.resolve(null);
+      worker.postMessage({ type: 'cancel', jobId } as HeatmapWorkerRequest);
+    };
+
+    return { promise, cancel };
+  };
+
+  const loadCandles = (exchange: ExchangeId, symbol: string, interval: Timeframe, limit: number, startTime?: number) => {
+    return startJob<Candle[]>(jobId => ({
+      request: { type: 'load', jobId, exchange, symbol, interval, limit, startTime },
+      transfer: []
+    }));
+  };
+
+  const computeHeatmap = (
+    candles: Candle[],
+    leverageTiers: LeverageTier[],
+    bucketSize: number,
+    options: HeatmapOptions,
+    engineKey: string,
+    onProgress?: (progress: number) => void
+  ) => {
+    // Same engine: the worker already has everything up to its forming candle
+    const reuse = held && held.engineKey === engineKey ? getCandleReuse(held.candles, candles) : null;
+    const entry = { engineKey, candles };
+    held = entry;
+
+    const job = startJob<HeatmapUpdate>(jobId => {
+      const columns = packCandles(reuse ? candles.slice(reuse.keep) : candles);
+      return {
+        request: { type: 'compute', jobId, engineKey, leverageTiers, bucketSize, options, candles: columns, reuse: reuse ?? undefined },
+        transfer: getCandleTransferables(columns)
+      };
+    }, onProgress);
+
+    // A cancelled or failed job leaves the worker without this history
+    const forget = () => {
+      if (held === entry) held = null;
+    };
+    job.promise.then(update => { if (!update) forget(); }, forget);
+    return job;
+  };
+
+  const traceProvenance = (engineKey: string, time: number, price: number) => {
+    return startJob<CellProvenance | null>(jobId => ({
+      request: { type: 'provenance', jobId, engineKey, time, price },
+      transfer: []
+    }));
+  };
+
+  const terminate = () => {
+    worker.terminate();
+    held = null;
+    pending.forEach(job => job.resolve(null));
+    pending.clear();
+  };
+
+  return { loadCandles, computeHeatmap, traceProvenance, terminate };
+};
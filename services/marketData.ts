@@ -0,0 +1,166 @@
+import { Candle, ExchangeId, Timeframe } from '../types';
+
+export type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+export const ALL_TIMEFRAMES: Timeframe[] = [
+  '1m', '3m', '5m', '15m', '30m',
+  '1h', '2h', '4h', '6h', '8h', '12h',
+  '1d', '3d', '1w', '1M'
+];
+
+export interface RateLimit {
+  minRequestIntervalMs: number; // Spacing between kline requests
+  maxKlinesPerRequest: number;
+}
+
+export type KlineStreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface KlineStreamHandlers {
+  onCandle: (candle: Candle, isClosed: boolean) => void;
+  onStatus?: (status: KlineStreamStatus) => void;
+}
+
+export interface KlineStreamOptions {
+  url?: string; // Stream base URL, e.g. a local mock server
+  createSocket?: (url: string) => WebSocket;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface KlineStream {
+  close: () => void;
+}
+
+/**
+ * One venue's USDT-margined linear perpetuals. Symbols are passed around in the canonical
+ * BASEQUOTE form (e.g. BTCUSDT) and mapped to the venue's naming inside the adapter.
+ * Adapters take the fetch implementation as a parameter so they can run against recorded responses.
+ */
+export interface MarketDataProvider {
+  id: ExchangeId;
+  label: string;
+  rateLimit: RateLimit;
+  timeframes: Timeframe[]; // Kline intervals the venue offers
+  toExchangeSymbol: (symbol: string) => string;
+  fromExchangeSymbol: (exchangeSymbol: string) => string;
+  fetchSymbols: () => Promise<string[]>; // Canonical, sorted
+  listsSymbol: (symbol: string) => Promise<boolean>; // Also true where the venue trades it under another name or unit
+  fetchTickSizes: () => Promise<{ [symbol: string]: number }>;
+  // Latest `limit` candles opened before `before` (seconds; default now), oldest -> newest.
+  // Fewer only when the venue has no older candles; failed requests reject
+  fetchCandles: (symbol: string, interval: Timeframe, limit: number, before?: number) => Promise<Candle[]>;
+  // Candles opened at or after `startTime` (seconds), at most `maxCandles`, oldest -> newest
+  fetchCandlesSince: (symbol: string, interval: Timeframe, startTime: number, maxCandles?: number) => Promise<Candle[]>;
+  // Live klines; venues without it are refreshed by polling
+  subscribeKlines?: (symbol: string, interval: Timeframe, handlers: KlineStreamHandlers, options?: KlineStreamOptions) => KlineStream;
+}
+
+export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Spaces calls at least `minIntervalMs` apart; await the returned function before each request
+export const createThrottle = (minIntervalMs: number) => {
+  let next = 0;
+  return async () => {
+    const now = Date.now();
+    const wait = Math.max(0, next - now);
+    next = Math.max(now, next) + minIntervalMs;
+    if (wait > 0) await delay(wait);
+  };
+};
+
+/**
+ * GETs JSON, retrying network errors, rate limit responses (429/418, honouring Retry-After)
+ * and server errors with exponential backoff. Other HTTP errors throw immediately.
+ */
+export const fetchJsonWithRetry = async (
+  fetchFn: FetchFn,
+  url: string,
+  throttle: () => Promise<void>,
+  maxAttempts: number = 5
+): Promise<any> => {
+  for (let attempt = 0; ; attempt++) {
+    await throttle();
+    let response: Response;
+    try {
+      response = await fetchFn(url);
+    } catch (error) {
+      if (attempt + 1 >= maxAttempts) throw error;
+      await delay(1000 * (attempt + 1));
+      continue;
+    }
+    if (response.ok) return response.json();
+
+    const retryable = response.status === 429 || response.status === 418 || response.status >= 500;
+    if (!retryable || attempt + 1 >= maxAttempts) throw new Error(`Request failed (${response.status}): ${url}`);
+    const retryAfter = response.headers.get('Retry-After');
+    await delay(retryAfter ? parseInt(retryAfter, 10) * 1000 : 1000 * Math.pow(2, attempt));
+  }
+};
+
+/**
+ * Pages backwards until `limit` candles are collected, the history runs out or, with `since`,
+ * the page reaching back to that open time has been read. `fetchPage(end)` returns one page of
+ * candles opened before `end` (seconds, exclusive; undefined = latest), oldest -> newest.
+ */
+export const fetchCandlesBackward = async (
+  fetchPage: (end: number | undefined) => Promise<Candle[]>,
+  limit: number,
+  before?: number,
+  since?: number
+): Promise<Candle[]> => {
+  const pages: Candle[][] = [];
+  let count = 0;
+  let end = before;
+
+  while (count < limit) {
+    const page = await fetchPage(end);
+    if (page.length === 0) break;
+    pages.unshift(page);
+    count += page.length;
+    end = page[0].time;
+    if (since !== undefined && page[0].time <= since) break;
+  }
+
+  let candles = pages.flat();
+  if (since !== undefined) candles = candles.filter(c => c.time >= since);
+  return candles.length > limit ? candles.slice(candles.length - limit) : candles;
+};
+
+/**
+ * Merges candles into a time-sorted history: over the time range the incoming candles cover they
+ * replace the held ones, held candles before and after that range are kept (e.g. streamed candles
+ * newer than a REST page). The result stays sorted and free of duplicates. At most `maxLength` of
+ * the newest candles are kept.
+ */
+export const mergeCandles = (candles: Candle[], incoming: Candle[], maxLength: number = Infinity): Candle[] => {
+  const byTime = new Map<number, Candle>();
+  for (const c of incoming) byTime.set(c.time, c);
+  const fresh = [...byTime.values()].sort((a, b) => a.time - b.time);
+  if (fresh.length === 0) return candles;
+
+  const first = fresh[0].time;
+  const last = fresh[fresh.length - 1].time;
+  let before = candles.length;
+  while (before > 0 && candles[before - 1].time >= first) before--;
+  let after = before;
+  while (after < candles.length && candles[after].time <= last) after++;
+  const merged = candles.slice(0, before).concat(fresh, candles.slice(after));
+  return merged.length > maxLength ? merged.slice(merged.length - maxLength) : merged;
+};
+
+/**
+ * Applies a streamed candle to a time-sorted history in place: replaces the candle with the same
+ * open time, appends newer ones and ignores older ones. Returns whether the history changed.
+ */
+export const applyStreamCandle = (candles: Candle[], candle: Candle): boolean => {
+  const last = candles[candles.length - 1];
+  if (!last || candle.time > last.time) {
+    candles.push(candle);
+    return true;
+  }
+  if (candle.time === last.time) {
+    candles[candles.length - 1] = candle;
+    return true;
+  }
+  return false;
+};
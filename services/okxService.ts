@@ -0,0 +1,129 @@
+import { Candle, Timeframe } from '../types';
+import { FetchFn, MarketDataProvider, createThrottle, fetchJsonWithRetry, fetchCandlesBackward } from './marketData';
+
+const API_URL = 'https://www.okx.com/api/v5';
+
+// OKX has no 8h bars; daily and longer bars are requested UTC-aligned like the other venues
+const BARS: Partial<Record<Timeframe, string>> = {
+  '1m': '1m', '3m': '3m', '5m': '5m', '15m': '15m', '30m': '30m',
+  '1h': '1H', '2h': '2H', '4h': '4H', '6h': '6Hutc', '12h': '12Hutc',
+  '1d': '1Dutc', '3d': '3Dutc', '1w': '1Wutc', '1M': '1Mutc'
+};
+
+const PAGE_LIMIT = 100;
+
+// Binance and Bybit quote some low-priced coins per 1000 or per million (1000PEPEUSDT, 1MBABYDOGEUSDT)
+// where OKX lists the coin itself. Longest prefix first.
+const UNIT_PREFIXES: [string, number][] = [['1000000', 1e6], ['1000', 1e3], ['1M', 1e6]];
+
+// Candle layout: [ts, open, high, low, close, vol (contracts), volCcy (base), volCcyQuote, confirm], strings, newest first.
+// `unit` rescales the coin's prices and volume to a per-1000 (or per-million) symbol.
+const parseCandle = (d: string[], unit: number): Candle => ({
+  time: parseInt(d[0], 10) / 1000,
+  open: parseFloat(d[1]) * unit,
+  high: parseFloat(d[2]) * unit,
+  low: parseFloat(d[3]) * unit,
+  close: parseFloat(d[4]) * unit,
+  volume: parseFloat(d[6]) / unit,
+});
+
+/**
+ * OKX USDT-margined perpetual swaps (v5 API). Instruments are named BASE-USDT-SWAP; symbols the
+ * other venues quote per 1000 or per million units map onto the coin's own instrument.
+ */
+export const createOkxProvider = (fetchFn: FetchFn = fetch): MarketDataProvider => {
+  // history-candles allows 20 requests per 2 seconds
+  const rateLimit = { minRequestIntervalMs: 100, maxKlinesPerRequest: PAGE_LIMIT };
+  const throttle = createThrottle(rateLimit.minRequestIntervalMs);
+
+  const toExchangeSymbol = (symbol: string) => `${symbol.replace(/USDT$/, '')}-USDT-SWAP`;
+  const fromExchangeSymbol = (instId: string) => instId.replace(/-SWAP$/, '').replace('-', '');
+
+  // Unwraps the { code, msg, data } envelope
+  const get = async (path: string): Promise<any[]> => {
+    const response = await fetchJsonWithRetry(fetchFn, `${API_URL}${path}`, throttle);
+    if (response.code !== '0') throw new Error(`OKX ${path} failed: ${response.msg}`);
+    return response.data;
+  };
+
+  let instrumentsPromise: Promise<any[]> | null = null;
+
+  const fetchInstruments = (): Promise<any[]> => {
+    if (!instrumentsPromise) {
+      instrumentsPromise = (async () => {
+        const instruments = await get('/public/instruments?instType=SWAP');
+        return instruments.filter(s => s.settleCcy === 'USDT' && s.ctType === 'linear' && s.state === 'live');
+      })();
+      // Allow a retry on the next call
+      instrumentsPromise.catch(() => { instrumentsPromise = null; });
+    }
+    return instrumentsPromise;
+  };
+
+  // The listed instrument behind a canonical symbol and its unit, null if OKX does not trade it
+  const resolveInstrument = async (symbol: string): Promise<{ instId: string; unit: number } | null> => {
+    const listed = new Set((await fetchInstruments()).map(s => s.instId));
+    if (listed.has(toExchangeSymbol(symbol))) return { instId: toExchangeSymbol(symbol), unit: 1 };
+    for (const [prefix, unit] of UNIT_PREFIXES) {
+      const instId = toExchangeSymbol(symbol.slice(prefix.length));
+      if (symbol.startsWith(prefix) && listed.has(instId)) return { instId, unit };
+    }
+    return null;
+  };
+
+  const fetchPage = async (symbol: string, interval: Timeframe, end: number | undefined): Promise<Candle[]> => {
+    const bar = BARS[interval];
+    if (!bar) throw new Error(`OKX has no ${interval} bars`);
+    const instrument = await resolveInstrument(symbol);
+    if (!instrument) throw new Error(`OKX does not list ${symbol}`);
+
+    // `after` returns records strictly older than the given millisecond timestamp
+    let path = `/market/history-candles?instId=${instrument.instId}&bar=${bar}&limit=${PAGE_LIMIT}`;
+    if (end !== undefined) path += `&after=${end * 1000}`;
+    const data = await get(path);
+    return (data as string[][]).map(d => parseCandle(d, instrument.unit)).reverse();
+  };
+
+  return {
+    id: 'okx',
+    label: 'OKX',
+    rateLimit,
+    timeframes: Object.keys(BARS) as Timeframe[],
+    toExchangeSymbol,
+    fromExchangeSymbol,
+
+    fetchSymbols: async () => {
+      try {
+        const instruments = await fetchInstruments();
+        return instruments.map(s => fromExchangeSymbol(s.instId)).sort();
+      } catch (error) {
+        console.error("Failed to fetch OKX symbols:", error);
+        return [];
+      }
+    },
+
+    listsSymbol: async symbol => (await resolveInstrument(symbol)) !== null,
+
+    fetchTickSizes: async () => {
+      try {
+        const instruments = await fetchInstruments();
+        const tickSizes: { [symbol: string]: number } = {};
+        for (const s of instruments) {
+          const tickSize = parseFloat(s.tickSz);
+          if (tickSize > 0) tickSizes[fromExchangeSymbol(s.instId)] = tickSize;
+        }
+        return tickSizes;
+      } catch (error) {
+        console.error("Failed to fetch OKX tick sizes:", error);
+        return {};
+      }
+    },
+
+    fetchCandles: (symbol, interval, limit, before) =>
+      fetchCandlesBackward(end => fetchPage(symbol, interval, end), limit, before),
+
+    // The candle endpoints page backwards only, so walk back from now to `startTime`
+    fetchCandlesSince: (symbol, interval, startTime, maxCandles = 100000) =>
+      fetchCandlesBackward(end => fetchPage(symbol, interval, end), maxCandles, undefined, startTime)
+  };
+};
@@ -0,0 +1,115 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { createBinanceProvider } from '../services/binanceService';
+import { createBybitProvider } from '../services/bybitService';
+import { createOkxProvider } from '../services/okxService';
+import { FetchFn } from '../services/marketData';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+// Answers every request with the body `route` picks for its URL, recording the URLs
+const createFixtureFetch = (route: (url: string) => string) => {
+  const urls: string[] = [];
+  const fetchFn: FetchFn = async url => {
+    urls.push(url);
+    return new Response(route(url), { status: 200 });
+  };
+  return { fetchFn, urls };
+};
+
+const HOUR_0 = 1748736000; // 2025-06-01T00:00:00Z
+
+describe('Binance adapter', () => {
+  it('maps futures klines, then finds no older spot history', async () => {
+    const { fetchFn, urls } = createFixtureFetch(url =>
+      url.startsWith('https://fapi.binance.com/fapi/v1/klines') ? fixture('binance-klines-BTCUSDT-1h.json') : '[]'
+    );
+    const candles = await createBinanceProvider(fetchFn).fetchCandles('BTCUSDT', '1h', 5);
+
+    expect(candles[0]).toEqual({
+      time: HOUR_0, open: 104591.8, high: 104803.6, low: 104282, close: 104362.1,
+      volume: 2905.843, takerBuyVolume: 1312.207, trades: 62781
+    });
+    expect(candles.map(c => c.time)).toEqual([HOUR_0, HOUR_0 + 3600, HOUR_0 + 7200]);
+    // The short futures page falls back to spot, which has nothing older
+    expect(urls).toEqual([
+      'https://fapi.binance.com/fapi/v1/klines?symbol=BTCUSDT&interval=1h&limit=5',
+      `https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1h&limit=2&endTime=${HOUR_0 * 1000 - 1}`
+    ]);
+  });
+});
+
+describe('Bybit adapter', () => {
+  const empty = JSON.stringify({ retCode: 0, retMsg: 'OK', result: { category: 'linear', symbol: 'BTCUSDT', list: [] } });
+
+  it('maps newest-first klines to ascending candles', async () => {
+    const { fetchFn, urls } = createFixtureFetch(url => url.includes('&end=') ? empty : fixture('bybit-kline-BTCUSDT-60.json'));
+    const candles = await createBybitProvider(fetchFn).fetchCandles('BTCUSDT', '1h', 5);
+
+    expect(candles).toEqual([
+      { time: HOUR_0, open: 104597.2, high: 104809.9, low: 104285.5, close: 104365.8, volume: 2411.078 },
+      { time: HOUR_0 + 3600, open: 104365.8, high: 104670.2, low: 104301.9, close: 104654.3, volume: 1675.391 },
+      { time: HOUR_0 + 7200, open: 104654.3, high: 104840, low: 104550.1, close: 104721.5, volume: 1203.554 }
+    ]);
+    expect(urls).toEqual([
+      'https://api.bybit.com/v5/market/kline?category=linear&symbol=BTCUSDT&interval=60&limit=1000',
+      `https://api.bybit.com/v5/market/kline?category=linear&symbol=BTCUSDT&interval=60&limit=1000&end=${HOUR_0 * 1000 - 1}`
+    ]);
+  });
+
+  it('keeps only the candles from the requested start', async () => {
+    const { fetchFn } = createFixtureFetch(url => url.includes('&end=') ? empty : fixture('bybit-kline-BTCUSDT-60.json'));
+    const candles = await createBybitProvider(fetchFn).fetchCandlesSince('BTCUSDT', '1h', HOUR_0 + 3600);
+    expect(candles.map(c => c.time)).toEqual([HOUR_0 + 3600, HOUR_0 + 7200]);
+  });
+});
+
+describe('OKX adapter', () => {
+  const empty = JSON.stringify({ code: '0', msg: '', data: [] });
+  const okxRoute = (url: string) => {
+    if (url.includes('/public/instruments')) return fixture('okx-instruments-swap.json');
+    if (url.includes('&after=')) return empty;
+    if (url.includes('instId=BTC-USDT-SWAP')) return fixture('okx-history-candles-BTC-USDT-SWAP-1H.json');
+    if (url.includes('instId=PEPE-USDT-SWAP')) return fixture('okx-history-candles-PEPE-USDT-SWAP-1H.json');
+    return JSON.stringify({ code: '51001', msg: 'Instrument ID does not exist', data: [] });
+  };
+
+  it('maps history candles, taking the base currency volume', async () => {
+    const { fetchFn, urls } = createFixtureFetch(okxRoute);
+    const candles = await createOkxProvider(fetchFn).fetchCandles('BTCUSDT', '1h', 5);
+
+    expect(candles).toEqual([
+      { time: HOUR_0, open: 104590.1, high: 104801.2, low: 104280.3, close: 104360.7, volume: 1986.4005 },
+      { time: HOUR_0 + 3600, open: 104360.7, high: 104664.4, low: 104298.8, close: 104648.9, volume: 1318.7738 },
+      { time: HOUR_0 + 7200, open: 104648.9, high: 104836.6, low: 104542, close: 104716.2, volume: 984.1124 }
+    ]);
+    expect(urls).toContain('https://www.okx.com/api/v5/market/history-candles?instId=BTC-USDT-SWAP&bar=1H&limit=100');
+  });
+
+  it('lists linear USDT swaps under canonical symbols', async () => {
+    const provider = createOkxProvider(createFixtureFetch(okxRoute).fetchFn);
+    expect(await provider.fetchSymbols()).toEqual(['BTCUSDT', 'PEPEUSDT']);
+    expect(await provider.fetchTickSizes()).toEqual({ BTCUSDT: 0.1, PEPEUSDT: 0.0000000001 });
+  });
+
+  it('serves per-1000 symbols from the coin instrument, rescaled', async () => {
+    const { fetchFn, urls } = createFixtureFetch(okxRoute);
+    const provider = createOkxProvider(fetchFn);
+    expect(await provider.listsSymbol('1000PEPEUSDT')).toBe(true);
+
+    const candles = await provider.fetchCandles('1000PEPEUSDT', '1h', 5);
+    expect(urls).toContain('https://www.okx.com/api/v5/market/history-candles?instId=PEPE-USDT-SWAP&bar=1H&limit=100');
+    expect(candles.map(c => c.time)).toEqual([HOUR_0, HOUR_0 + 3600]);
+    expect(candles[0].open).toBeCloseTo(0.01231, 10);
+    expect(candles[0].close).toBeCloseTo(0.0124, 10);
+    expect(candles[0].volume).toBeCloseTo(61729000, 4);
+  });
+
+  it('reports symbols it does not list instead of requesting them', async () => {
+    const { fetchFn, urls } = createFixtureFetch(okxRoute);
+    const provider = createOkxProvider(fetchFn);
+    expect(await provider.listsSymbol('NOPEUSDT')).toBe(false);
+    await expect(provider.fetchCandles('NOPEUSDT', '1h', 5)).rejects.toThrow('OKX does not list NOPEUSDT');
+    expect(urls.some(url => url.includes('history-candles'))).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearCandleCache, fetchCandlesCached } from '../services/candleCache';
+import { fetchKlineChunks, fetchKlineChunksSince } from '../services/binanceService';
+import { MarketDataProvider } from '../services/marketData';
+import { unpackCandles } from '../utils/candleColumns';
+import { Candle } from '../types';
+
+const MINUTE = 60;
+
+// Venue with `count` one-minute candles ending at the current minute; records every request
+const createFakeProvider = (count: number) => {
+  const now = Math.floor(Date.now() / 1000 / MINUTE) * MINUTE;
+  const history: Candle[] = Array.from({ length: count }, (_, i) => {
+    const time = now - (count - 1 - i) * MINUTE;
+    return { time, open: 100, high: 101, low: 99, close: 100, volume: i + 1 };
+  });
+  const calls: string[] = [];
+  let failing = false;
+
+  const provider: MarketDataProvider = {
+    id: 'binance',
+    label: 'Fake',
+    rateLimit: { minRequestIntervalMs: 0, maxKlinesPerRequest: 1000 },
+    timeframes: ['1m'],
+    toExchangeSymbol: s => s,
+    fromExchangeSymbol: s => s,
+    fetchSymbols: async () => ['BTCUSDT'],
+    listsSymbol: async s => s === 'BTCUSDT',
+    fetchTickSizes: async () => ({}),
+    fetchCandles: async (_symbol, _interval, limit, before) => {
+      calls.push(`candles ${limit}${before !== undefined ? ` before ${before}` : ''}`);
+      if (failing) throw new Error('network down');
+      const older = history.filter(c => before === undefined || c.time < before);
+      return older.slice(Math.max(0, older.length - limit));
+    },
+    fetchCandlesSince: async (_symbol, _interval, startTime) => {
+      calls.push(`since ${startTime}`);
+      if (failing) throw new Error('network down');
+      return history.filter(c => c.time >= startTime);
+    }
+  };
+
+  return { provider, history, calls, setFailing: (value: boolean) => { failing = value; } };
+};
+
+const load = async (provider: MarketDataProvider, limit: number) =>
+  unpackCandles(await fetchCandlesCached(provider, 'BTCUSDT', '1m', limit));
+
+describe('fetchCandlesCached', () => {
+  beforeEach(async () => {
+    await clearCandleCache();
+  });
+
+  it('downloads a cold series once and only tops up the tail afterwards', async () => {
+    const venue = createFakeProvider(500);
+    expect(await load(venue.provider, 200)).toEqual(venue.history.slice(300));
+    expect(venue.calls).toEqual(['candles 200']);
+
+    venue.calls.length = 0;
+    expect(await load(venue.provider, 200)).toEqual(venue.history.slice(300));
+    expect(venue.calls).toEqual([`since ${venue.history[499].time}`]);
+  });
+
+  it('fetches only the missing head when a longer history is requested', async () => {
+    const venue = createFakeProvider(500);
+    await load(venue.provider, 200);
+
+    venue.calls.length = 0;
+    expect(await load(venue.provider, 350)).toEqual(venue.history.slice(150));
+    expect(venue.calls).toEqual([`since ${venue.history[499].time}`, `candles 150 before ${venue.history[300].time}`]);
+  });
+
+  it('stops asking for older candles once the venue ran out', async () => {
+    const venue = createFakeProvider(120);
+    expect(await load(venue.provider, 200)).toEqual(venue.history);
+
+    venue.calls.length = 0;
+    expect(await load(venue.provider, 400)).toEqual(venue.history);
+    expect(venue.calls).toEqual([`since ${venue.history[119].time}`]);
+  });
+
+  it('serves the cached candles when the venue is unreachable', async () => {
+    const venue = createFakeProvider(500);
+    await load(venue.provider, 100);
+
+    venue.setFailing(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    venue.calls.length = 0;
+    expect(await load(venue.provider, 100)).toEqual(venue.history.slice(400));
+    expect(venue.calls).toEqual([`since ${venue.history[499].time}`]);
+    vi.restoreAllMocks();
+  });
+
+  it('rejects when nothing is cached and the download fails', async () => {
+    const venue = createFakeProvider(500);
+    venue.setFailing(true);
+    await expect(load(venue.provider, 100)).rejects.toThrow('network down');
+  });
+
+  it('does not mark the series complete when the head download fails', async () => {
+    const venue = createFakeProvider(500);
+    await load(venue.provider, 100);
+
+    venue.setFailing(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await load(venue.provider, 300)).toEqual(venue.history.slice(400));
+    vi.restoreAllMocks();
+
+    venue.setFailing(false);
+    venue.calls.length = 0;
+    expect(await load(venue.provider, 300)).toEqual(venue.history.slice(200));
+    expect(venue.calls).toContain(`candles 200 before ${venue.history[400].time}`);
+  });
+});
+
+describe('Binance kline downloads', () => {
+  const kline = (openTime: number) => [openTime, '1', '1', '1', '1', '1', openTime + 59999, '1', 1, '1', '1', '0'];
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('throws instead of returning a partial history when requests keep failing', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    let calls = 0;
+    const fetchFn = async () => {
+      calls++;
+      return calls === 1 ? json(Array.from({ length: 1500 }, (_, i) => kline(i * 60000))) : json({}, 503);
+    };
+
+    const result = fetchKlineChunks('BTCUSDT', '1m', 3000, undefined, fetchFn);
+    const settled = expect(result).rejects.toThrow('klines failed');
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(calls).toBeGreaterThan(2);
+  });
+
+  it('throws instead of returning a partial top-up when rate limited', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const fetchFn = async () => {
+      calls++;
+      return calls === 1 ? json(Array.from({ length: 1500 }, (_, i) => kline(i * 60000))) : json({ code: -1003 }, 429);
+    };
+
+    const result = fetchKlineChunksSince('BTCUSDT', '1m', 0, 5000, fetchFn);
+    const settled = expect(result).rejects.toThrow('Request failed (429)');
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(calls).toBe(6);
+  });
+
+  it('rejects an unknown futures symbol instead of returning nothing', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetchFn = async () => json({ code: -1121, msg: 'Invalid symbol.' }, 400);
+    await expect(fetchKlineChunks('NOPEUSDT', '1m', 100, undefined, fetchFn)).rejects.toThrow('klines failed: 400');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getCandleReuse, packCandles, unpackCandles } from '../utils/candleColumns';
+import { Candle } from '../types';
+
+const candle = (time: number, close = 100): Candle => ({ time, open: 100, high: close + 1, low: close - 1, close, volume: 10 });
+const series = (from: number, count: number) => Array.from({ length: count }, (_, i) => candle((from + i) * 60));
+
+describe('packCandles', () => {
+  it('round-trips candles, leaving unreported fields out', () => {
+    const candles: Candle[] = [
+      { ...candle(60), takerBuyVolume: 4, trades: 12, venues: [{ volume: 6, takerBuyVolume: 3 }, null] },
+      { ...candle(120), venues: [null, { volume: 2 }] }
+    ];
+    expect(unpackCandles(packCandles(candles))).toEqual(candles);
+  });
+});
+
+describe('getCandleReuse', () => {
+  it('keeps everything but the forming candle when the history grew', () => {
+    const held = series(0, 10);
+    const candles = [...held.slice(0, 9), candle(9 * 60, 105), candle(10 * 60)];
+    expect(getCandleReuse(held, candles)).toEqual({ drop: 0, keep: 9 });
+  });
+
+  it('accounts for candles that slid off the front', () => {
+    const held = series(0, 10);
+    const candles = series(3, 9);
+    expect(getCandleReuse(held, candles)).toEqual({ drop: 3, keep: 6 });
+  });
+
+  it('rebuilds the history the worker would get from a full send', () => {
+    const held = series(0, 10);
+    const candles = [...series(2, 7), candle(9 * 60, 110), candle(10 * 60, 111), candle(11 * 60, 112)];
+    const reuse = getCandleReuse(held, candles)!;
+    const rebuilt = held.slice(reuse.drop, reuse.drop + reuse.keep).concat(candles.slice(reuse.keep));
+    expect(rebuilt).toEqual(candles);
+  });
+
+  it('refuses histories that do not line up', () => {
+    const held = series(0, 10);
+    // Extended backwards
+    expect(getCandleReuse(held, series(-1, 12))).toBeNull();
+    // A candle filled in between
+    const gapped = [...series(0, 5), ...series(6, 4)];
+    expect(getCandleReuse(gapped, series(0, 11))).toBeNull();
+    // Replaced entirely
+    expect(getCandleReuse(held, series(100, 10))).toBeNull();
+    // Nothing committed yet
+    expect(getCandleReuse(series(0, 1), series(0, 3))).toBeNull();
+  });
+});
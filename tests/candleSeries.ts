@@ -0,0 +1,31 @@
+import { Candle } from '../types';
+
+/**
+ * Deterministic random-walk candles for engine tests: `count` bars of `intervalSeconds` from
+ * `startTime`, with taker buy volume and trade counts filled in.
+ */
+export const createCandleSeries = (count: number, seed = 1, startTime = 1700000000, intervalSeconds = 3600): Candle[] => {
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+
+  const candles: Candle[] = [];
+  let price = 100;
+  for (let i = 0; i < count; i++) {
+    const open = price;
+    const close = open * (1 + (random() - 0.5) * 0.04);
+    const high = Math.max(open, close) * (1 + random() * 0.01);
+    const low = Math.min(open, close) * (1 - random() * 0.01);
+    const volume = 500 + random() * 1500;
+    candles.push({
+      time: startTime + i * intervalSeconds,
+      open, high, low, close, volume,
+      takerBuyVolume: volume * (0.3 + random() * 0.4),
+      trades: Math.round(volume * 3)
+    });
+    price = close;
+  }
+  return candles;
+};
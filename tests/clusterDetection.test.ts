@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CLUSTER_OPTIONS, detectClusters } from '../utils/clusterDetection';
+import { appendColumn, createHeatmapGrid } from '../utils/heatmapGrid';
+import { HeatmapGrid } from '../types';
+
+const BUCKET_SIZE = 1;
+const ROW_START = 100;
+
+// One column per entry; rows start at ROW_START (price 100) with a 1.0 bucket
+const gridOf = (columns: { long: number[]; short?: number[] }[]): HeatmapGrid => {
+  const grid = createHeatmapGrid(BUCKET_SIZE);
+  columns.forEach(({ long, short = long.map(() => 0) }, i) => {
+    appendColumn(grid, 1000 + i * 60, ROW_START, long, short, long.length);
+  });
+  return grid;
+};
+
+describe('detectClusters', () => {
+  it('returns nothing for columns outside the grid', () => {
+    const grid = gridOf([{ long: [0, 5, 0] }]);
+    expect(detectClusters(grid, -1)).toEqual([]);
+    expect(detectClusters(grid, 1)).toEqual([]);
+  });
+
+  it('returns nothing for empty and all-zero columns', () => {
+    const grid = gridOf([{ long: [] }, { long: [0, 0, 0], short: [0, 0, 0] }]);
+    expect(detectClusters(grid, 0)).toEqual([]);
+    expect(detectClusters(grid, 1)).toEqual([]);
+  });
+
+  it('finds separated peaks per side, strongest first', () => {
+    const grid = gridOf([{ long: [0, 4, 0, 0, 10, 0], short: [0, 0, 6, 0, 0, 0] }]);
+    const clusters = detectClusters(grid, 0);
+
+    expect(clusters.map(c => [c.side, c.price, c.density])).toEqual([
+      ['long', 104.5, 10],
+      ['long', 101.5, 4],
+      ['short', 102.5, 6]
+    ]);
+    expect(clusters[0].strength).toBe(1);
+    expect(clusters[1].strength).toBeCloseTo(0.4);
+    // Running off the edge or meeting a taller value bounds the valley at zero here
+    expect(clusters[1].prominence).toBeCloseTo(0.4);
+  });
+
+  it('counts a peak on the edge of the column', () => {
+    const grid = gridOf([{ long: [10, 2, 0] }]);
+    expect(detectClusters(grid, 0).map(c => c.price)).toEqual([100.5]);
+  });
+
+  it('drops peaks below the density or prominence thresholds', () => {
+    // 2 is under minDensity; 9 only rises 1 above the valley at 8 next to 10
+    const grid = gridOf([{ long: [2, 0, 10, 8, 9, 0] }]);
+    expect(detectClusters(grid, 0).map(c => c.density)).toEqual([10]);
+  });
+
+  it('drops weaker peaks too close to an accepted one and caps the count', () => {
+    const grid = gridOf([{ long: [10, 0, 8, 0, 6, 0, 5] }]);
+
+    const separated = detectClusters(grid, 0, { ...DEFAULT_CLUSTER_OPTIONS, minSeparation: 0.025 });
+    expect(separated.map(c => c.density)).toEqual([10, 6]);
+
+    const capped = detectClusters(grid, 0, { ...DEFAULT_CLUSTER_OPTIONS, maxClusters: 2 });
+    expect(capped.map(c => c.density)).toEqual([10, 8]);
+  });
+
+  it('ages a cluster by the bars its level held at least half its density', () => {
+    const grid = gridOf([
+      { long: [0, 8, 0] },
+      { long: [0, 3, 0] },
+      { long: [0, 4, 0] },
+      { long: [0, 6, 0] },
+      { long: [0, 8, 0] }
+    ]);
+    // 4 is exactly half of 8 and still counts; 3 ends the run
+    const [cluster] = detectClusters(grid, 4);
+    expect(cluster.age).toBe(3);
+    expect(cluster.since).toBe(grid.times[2]);
+
+    const [first] = detectClusters(grid, 0);
+    expect(first.age).toBe(1);
+    expect(first.since).toBe(grid.times[0]);
+  });
+
+  it('stops the age at rows outside an older column', () => {
+    const grid = createHeatmapGrid(BUCKET_SIZE);
+    appendColumn(grid, 1000, ROW_START + 5, [9], [0], 1);
+    appendColumn(grid, 1060, ROW_START, [0, 8, 0], [0, 0, 0], 3);
+    expect(detectClusters(grid, 1)[0].age).toBe(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeClusterHits, clusterStatsToCsv } from '../utils/clusterStats';
+import { appendColumn, createHeatmapGrid } from '../utils/heatmapGrid';
+import { Candle, HeatmapGrid } from '../types';
+
+const ROW_START = 95;
+const ROWS = 11; // Prices 95..106 on a 1.0 bucket
+
+const candle = (i: number, low: number, high: number, close = 100): Candle => ({
+  time: 1000 + i * 60, open: close, high, low, close, volume: 1
+});
+
+// Every column holds long density at `longRows` and short density at `shortRows` (row -> density)
+const gridOf = (length: number, longRows: Record<number, number>, shortRows: Record<number, number>): HeatmapGrid => {
+  const grid = createHeatmapGrid(1);
+  const values = (rows: Record<number, number>) => Array.from({ length: ROWS }, (_, k) => rows[ROW_START + k] ?? 0);
+  for (let i = 0; i < length; i++) {
+    appendColumn(grid, 1000 + i * 60, ROW_START, values(longRows), values(shortRows), ROWS);
+  }
+  return grid;
+};
+
+const bySide = (grid: HeatmapGrid, candles: Candle[], horizon: number) => {
+  const [long, short] = analyzeClusterHits(grid, candles, 'test', horizon);
+  return { long, short };
+};
+
+describe('analyzeClusterHits', () => {
+  it('measures hits, time to hit, overshoot and distance per side', () => {
+    const candles = [candle(0, 99, 101), candle(1, 97, 101), candle(2, 99, 104), candle(3, 99, 101)];
+    const { long, short } = bySide(gridOf(4, { 97: 5 }, { 103: 5 }), candles, 2);
+
+    expect(long).toMatchObject({ label: 'test', side: 'long', horizon: 2, samples: 2, hits: 1, hitRate: 0.5, avgBarsToHit: 1 });
+    expect(long.avgOvershoot).toBeCloseTo(0.5 / 97.5 * 100);
+    expect(long.avgDistance).toBeCloseTo(2.5);
+
+    expect(short).toMatchObject({ side: 'short', samples: 2, hits: 2, hitRate: 1, avgBarsToHit: 1.5 });
+    expect(short.avgOvershoot).toBeCloseTo(0.5 / 103.5 * 100);
+    expect(short.avgDistance).toBeCloseTo(3.5);
+  });
+
+  it('skips bars whose horizon runs past the last bar', () => {
+    const candles = Array.from({ length: 5 }, (_, i) => candle(i, 99, 101));
+    const grid = gridOf(5, { 97: 5 }, { 103: 5 });
+
+    expect(bySide(grid, candles, 2).long.samples).toBe(3);
+    for (const horizon of [5, 10]) {
+      const { long, short } = bySide(grid, candles, horizon);
+      for (const stats of [long, short]) {
+        expect(stats).toMatchObject({ samples: 0, hits: 0, hitRate: 0, avgBarsToHit: 0, avgOvershoot: 0, avgDistance: 0 });
+      }
+    }
+  });
+
+  it('only walks bars that have both a column and a candle', () => {
+    const candles = Array.from({ length: 6 }, (_, i) => candle(i, 99, 101));
+    expect(bySide(gridOf(3, { 97: 5 }, {}), candles, 1).long.samples).toBe(2);
+    expect(bySide(gridOf(6, { 97: 5 }, {}), candles.slice(0, 3), 1).long.samples).toBe(2);
+  });
+
+  it('ignores density on the wrong side of the close and empty columns', () => {
+    const candles = Array.from({ length: 4 }, (_, i) => candle(i, 96, 104));
+
+    // Stronger long density above the close and short density below it never count
+    const { long, short } = bySide(gridOf(4, { 97: 2, 102: 9 }, { 98: 9 }), candles, 1);
+    expect(long.samples).toBe(3);
+    expect(long.avgDistance).toBeCloseTo(2.5);
+    expect(short.samples).toBe(0);
+
+    const empty = bySide(gridOf(4, {}, {}), candles, 1);
+    expect(empty.long.samples).toBe(0);
+    expect(empty.short.samples).toBe(0);
+  });
+
+  it('reports no averages when nothing is hit', () => {
+    const candles = Array.from({ length: 4 }, (_, i) => candle(i, 99, 101));
+    const { long } = bySide(gridOf(4, { 97: 5 }, {}), candles, 2);
+    expect(long).toMatchObject({ samples: 2, hits: 0, hitRate: 0, avgBarsToHit: 0, avgOvershoot: 0 });
+    expect(long.avgDistance).toBeCloseTo(2.5);
+  });
+});
+
+describe('clusterStatsToCsv', () => {
+  it('writes a header row and escapes labels', () => {
+    const candles = Array.from({ length: 3 }, (_, i) => candle(i, 99, 101));
+    const rows = analyzeClusterHits(gridOf(3, {}, {}), candles, '10x, "log"', 1);
+    expect(clusterStatsToCsv(rows).split('\n')).toEqual([
+      'label,side,horizon,samples,hits,hitRate,avgBarsToHit,avgOvershoot,avgDistance',
+      '"10x, ""log""",long,1,0,0,0,0,0,0',
+      '"10x, ""log""",short,1,0,0,0,0,0,0'
+    ]);
+    expect(clusterStatsToCsv([])).toBe('label,side,horizon,samples,hits,hitRate,avgBarsToHit,avgOvershoot,avgDistance');
+  });
+});
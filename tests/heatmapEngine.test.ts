@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { applyHeatmapUpdate, calculateHeatmapData, createHeatmapEngine } from '../utils/heatmapMath';
+import { createHeatmapGrid } from '../utils/heatmapGrid';
+import { Candle, HeatmapCalculationResult, HeatmapGrid, HeatmapOptions, LeverageTier } from '../types';
+import { createCandleSeries } from './candleSeries';
+
+const TIERS: LeverageTier[] = [{ leverage: 10, weight: 2 }, { leverage: 25, weight: 1 }, { leverage: 100, weight: 1 }];
+const BUCKET_SIZE = 0.25;
+
+// Column contents independent of buffer capacity and offsets
+const columnsOf = (grid: HeatmapGrid, from = 0) => Array.from({ length: grid.length - from }, (_, i) => {
+  const c = from + i;
+  const values = (array: Float32Array) => Array.from(array.subarray(grid.offsets[c], grid.offsets[c + 1]));
+  return {
+    time: grid.times[c],
+    rows: [grid.rowStart[c], grid.rowEnd[c]],
+    long: values(grid.longDensity),
+    short: values(grid.shortDensity),
+    ages: grid.ages ? values(grid.ages) : null
+  };
+});
+
+// `full` minus its first `dropped` columns must equal `result`
+const expectSameResult = (result: HeatmapCalculationResult, full: HeatmapCalculationResult, dropped = 0) => {
+  expect(columnsOf(result.grid)).toEqual(columnsOf(full.grid, dropped));
+  expect(result.tierLayers.map(layer => columnsOf(layer.grid))).toEqual(full.tierLayers.map(layer => columnsOf(layer.grid, dropped)));
+  expect(result.tierLayers.map(layer => layer.maxDensity)).toEqual(full.tierLayers.map(layer => layer.maxDensity));
+  expect(result.liquidations).toEqual(full.liquidations.slice(dropped));
+  expect(result.globalMaxDensity).toBe(full.globalMaxDensity);
+};
+
+const emptyResult = (options: HeatmapOptions): HeatmapCalculationResult => ({
+  grid: createHeatmapGrid(BUCKET_SIZE, options.bucketScale || 'linear'),
+  tierLayers: [],
+  venueLayers: [],
+  liquidations: [],
+  globalMaxDensity: 0
+});
+
+// A forming candle as the stream would revise it
+const revise = (candle: Candle, close: number): Candle => ({
+  ...candle,
+  close,
+  high: Math.max(candle.high, close),
+  low: Math.min(candle.low, close),
+  volume: candle.volume * 1.2
+});
+
+describe('createHeatmapEngine', () => {
+  const history = createCandleSeries(600, 7);
+
+  const cases: [string, HeatmapOptions][] = [
+    ['close entries', { intervalSeconds: 3600 }],
+    ['decay, taker split, tier layers and ages', {
+      intervalSeconds: 3600,
+      entryDistribution: 'triangular',
+      takerSplit: true,
+      halfLife: { mode: 'bars', value: 48 },
+      tierLayers: true,
+      levelAges: true,
+      liquidationModel: 'exchange',
+      symbol: 'BTCUSDT'
+    }]
+  ];
+
+  it.each(cases)('matches a full recompute while candles stream in (%s)', (_name, options) => {
+    const engine = createHeatmapEngine(TIERS, BUCKET_SIZE, options);
+    let result = emptyResult(options);
+    const step = (candles: Candle[]) => {
+      result = applyHeatmapUpdate(result, engine.update(candles));
+    };
+
+    let candles = history.slice(0, 400);
+    step(candles);
+    expectSameResult(result, calculateHeatmapData(candles, TIERS, BUCKET_SIZE, options));
+
+    // Forming candle revised twice, then closed and followed by the next one
+    const last = candles[candles.length - 1];
+    candles = [...candles.slice(0, -1), revise(last, last.close * 1.01)];
+    step(candles);
+    candles = [...candles.slice(0, -1), revise(last, last.close * 0.985)];
+    step(candles);
+    expectSameResult(result, calculateHeatmapData(candles, TIERS, BUCKET_SIZE, options));
+
+    candles = [...candles, history[400]];
+    step(candles);
+    expectSameResult(result, calculateHeatmapData(candles, TIERS, BUCKET_SIZE, options));
+
+    // A refill that catches up on several candles at once
+    candles = [...candles, ...history.slice(401, 450)];
+    step(candles);
+    expectSameResult(result, calculateHeatmapData(candles, TIERS, BUCKET_SIZE, options));
+  });
+
+  it('drops the columns that slid out of the window and keeps the rest', () => {
+    const options: HeatmapOptions = { intervalSeconds: 3600, tierLayers: true };
+    const engine = createHeatmapEngine(TIERS, BUCKET_SIZE, options);
+    let result = applyHeatmapUpdate(emptyResult(options), engine.update(history.slice(0, 400)));
+
+    // Window of 400 slides by 30 candles
+    const update = engine.update(history.slice(30, 430));
+    expect(update.reset).toBe(false);
+    expect(update.dropCount).toBe(30);
+    result = applyHeatmapUpdate(result, update);
+
+    // Levels opened before the window still count, as in a recompute over everything seen
+    expectSameResult(result, calculateHeatmapData(history.slice(0, 430), TIERS, BUCKET_SIZE, options), 30);
+  });
+
+  it('starts over when the history is replaced or extended backwards', () => {
+    const options: HeatmapOptions = { intervalSeconds: 3600 };
+    const engine = createHeatmapEngine(TIERS, BUCKET_SIZE, options);
+    engine.update(history.slice(100, 300));
+
+    const backwards = engine.update(history.slice(50, 300));
+    expect(backwards.reset).toBe(true);
+    expectSameResult(applyHeatmapUpdate(emptyResult(options), backwards), calculateHeatmapData(history.slice(50, 300), TIERS, BUCKET_SIZE, options));
+
+    const replaced = engine.update(createCandleSeries(200, 99, history[0].time + 1000 * 3600));
+    expect(replaced.reset).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket as WsSocket } from 'ws';
+import { subscribeKlineStream } from '../services/binanceService';
+import { KlineStream, KlineStreamStatus } from '../services/marketData';
+import { Candle } from '../types';
+import { MockKlineServer, startMockKlineServer } from './mockKlineServer';
+
+const kline = (openTime: number, close: string, closed: boolean) => ({
+  t: openTime, T: openTime + 59999, s: 'BTCUSDT', i: '1m',
+  o: '100.0', h: '101.5', l: '99.5', c: close, v: '12.5', V: '7.25', n: 42, x: closed
+});
+
+// Unlike a browser socket, ws throws on an 'error' event nobody listens to; onclose still follows
+const createSocket = (url: string) => {
+  const socket = new WsSocket(url);
+  socket.on('error', () => {});
+  return socket as unknown as WebSocket;
+};
+
+describe('subscribeKlineStream', () => {
+  let server: MockKlineServer;
+  let stream: KlineStream | null = null;
+  let statuses: KlineStreamStatus[];
+  let candles: { candle: Candle; isClosed: boolean }[];
+
+  const subscribe = (minBackoffMs = 20, maxBackoffMs = 200) => {
+    stream = subscribeKlineStream('BTCUSDT', '1m', {
+      onCandle: (candle, isClosed) => candles.push({ candle, isClosed }),
+      onStatus: status => statuses.push(status)
+    }, { url: server.url, createSocket, minBackoffMs, maxBackoffMs });
+  };
+
+  const opens = () => statuses.filter(s => s === 'open').length;
+
+  beforeEach(async () => {
+    server = await startMockKlineServer();
+    statuses = [];
+    candles = [];
+  });
+
+  afterEach(async () => {
+    stream?.close();
+    stream = null;
+    await server.close();
+  });
+
+  it('subscribes to the lowercase kline stream and maps events to candles', async () => {
+    subscribe();
+    await vi.waitFor(() => expect(opens()).toBe(1));
+    expect(server.paths).toEqual(['/ws/btcusdt@kline_1m']);
+
+    server.sendKline(kline(1700000040000, '100.8', false));
+    server.sendKline(kline(1700000040000, '101.0', true));
+    await vi.waitFor(() => expect(candles).toHaveLength(2));
+
+    expect(candles[0]).toEqual({
+      candle: { time: 1700000040, open: 100, high: 101.5, low: 99.5, close: 100.8, volume: 12.5, takerBuyVolume: 7.25, trades: 42 },
+      isClosed: false
+    });
+    expect(candles[1].candle.close).toBe(101);
+    expect(candles[1].isClosed).toBe(true);
+  });
+
+  it('reconnects after the server drops the connection', async () => {
+    subscribe();
+    await vi.waitFor(() => expect(opens()).toBe(1));
+
+    server.dropAll();
+    await vi.waitFor(() => expect(opens()).toBe(2));
+    expect(statuses).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+
+    // Events on the new connection still reach the handler
+    server.sendKline(kline(1700000100000, '102.0', false));
+    await vi.waitFor(() => expect(candles).toHaveLength(1));
+  });
+
+  it('backs off exponentially up to the cap while connections are refused', async () => {
+    server.setRefusing(true);
+    subscribe(40, 160);
+    await vi.waitFor(() => expect(server.attempts.length).toBeGreaterThanOrEqual(5), { timeout: 3000 });
+
+    const gaps = server.attempts.slice(1, 5).map((t, i) => t - server.attempts[i]);
+    // Expected 40, 80, 160, 160; timers only fire late, so check lower bounds and the cap loosely
+    expect(gaps[0]).toBeGreaterThanOrEqual(35);
+    expect(gaps[1]).toBeGreaterThanOrEqual(75);
+    expect(gaps[2]).toBeGreaterThanOrEqual(155);
+    expect(gaps[3]).toBeGreaterThanOrEqual(155);
+    expect(gaps[3]).toBeLessThan(320);
+    expect(opens()).toBe(0);
+
+    // A successful open resets the backoff
+    server.setRefusing(false);
+    await vi.waitFor(() => expect(opens()).toBe(1), { timeout: 1000 });
+    const reopenedAt = Date.now();
+    server.dropAll();
+    await vi.waitFor(() => expect(opens()).toBe(2), { timeout: 1000 });
+    expect(Date.now() - reopenedAt).toBeLessThan(150);
+  });
+
+  it('stops reconnecting once closed', async () => {
+    subscribe();
+    await vi.waitFor(() => expect(opens()).toBe(1));
+
+    stream!.close();
+    stream = null;
+    expect(statuses[statuses.length - 1]).toBe('closed');
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(server.attempts).toHaveLength(1);
+    expect(statuses).toEqual(['connecting', 'open', 'closed']);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { applyHeatmapUpdate, calculateHeatmapData, createHeatmapEngine } from '../utils/heatmapMath';
+import { createHeatmapGrid, getColumnPeaks, getDensity } from '../utils/heatmapGrid';
+import { traceCellProvenance } from '../utils/levelProvenance';
+import { HeatmapOptions, LeverageTier } from '../types';
+import { createCandleSeries } from './candleSeries';
+
+const TIERS: LeverageTier[] = [{ leverage: 10, weight: 2 }, { leverage: 25, weight: 1 }, { leverage: 50, weight: 1 }];
+
+describe('traceCellProvenance', () => {
+  const candles = createCandleSeries(400);
+
+  const expectCellsExplained = (options: HeatmapOptions) => {
+    const { grid } = calculateHeatmapData(candles, TIERS, 0.25, options);
+    let checked = 0;
+    for (const column of [50, 200, grid.length - 1]) {
+      for (const row of getColumnPeaks(grid, column, 4)) {
+        const provenance = traceCellProvenance(grid, candles, TIERS, options, column, row)!;
+        const density = getDensity(grid, column, row);
+        expect(provenance.time).toBe(grid.times[column]);
+        // The grid stores float32 densities
+        expect(Math.abs(provenance.total - density)).toBeLessThanOrEqual(density * 1e-5);
+        const summed = provenance.contributions.reduce((sum, c) => sum + c.weight, 0);
+        expect(Math.abs(summed - provenance.total)).toBeLessThanOrEqual(provenance.total * 1e-9);
+        checked++;
+      }
+    }
+    expect(checked).toBeGreaterThan(0);
+  };
+
+  it('accounts for the whole density of a cell without decay', () => {
+    expectCellsExplained({ intervalSeconds: 3600, entryDistribution: 'uniform', takerSplit: true });
+  });
+
+  it('accounts for the whole density of a cell with decay', () => {
+    expectCellsExplained({ intervalSeconds: 3600, entryDistribution: 'uniform', halfLife: { mode: 'bars', value: 24 } });
+  });
+
+  it('still accounts for levels opened before the window slid', () => {
+    const options: HeatmapOptions = { intervalSeconds: 3600, entryDistribution: 'uniform' };
+    const engine = createHeatmapEngine(TIERS, 0.25, options);
+    const empty = { grid: createHeatmapGrid(0.25, 'linear'), tierLayers: [], venueLayers: [], liquidations: [], globalMaxDensity: 0 };
+    let result = applyHeatmapUpdate(empty, engine.update(candles.slice(0, 300)));
+    result = applyHeatmapUpdate(result, engine.update(candles.slice(60, 360)));
+    const { grid } = result;
+    expect(grid.times[0]).toBe(candles[60].time);
+
+    // The worker traces against every candle the engine processed, not just the window
+    const seen = candles.slice(0, 360);
+    let checked = 0;
+    for (const column of [0, 20, grid.length - 1]) {
+      for (const row of getColumnPeaks(grid, column, 4)) {
+        const density = getDensity(grid, column, row);
+        const provenance = traceCellProvenance(grid, seen, TIERS, options, column, row)!;
+        expect(Math.abs(provenance.total - density)).toBeLessThanOrEqual(density * 1e-5);
+        checked++;
+      }
+    }
+    expect(checked).toBeGreaterThan(0);
+  });
+
+  it('returns nothing for columns outside the grid', () => {
+    const { grid } = calculateHeatmapData(candles, TIERS, 0.25, {});
+    expect(traceCellProvenance(grid, candles, TIERS, {}, grid.length, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { computeImbalanceSeries, DEFAULT_IMBALANCE_CONFIG } from '../utils/liquidationImbalance';
+import { appendColumn, createHeatmapGrid } from '../utils/heatmapGrid';
+import { Candle, HeatmapGrid } from '../types';
+
+const ROW_START = 95;
+const ROWS = 11; // Prices 95..106 on a 1.0 bucket
+
+const candle = (time: number, close = 100): Candle => ({ time, open: close, high: close, low: close, close, volume: 1 });
+
+const rowValues = (rows: Record<number, number>, start = ROW_START, count = ROWS) =>
+  Array.from({ length: count }, (_, k) => rows[start + k] ?? 0);
+
+// One column at `time` holding long and short density by row
+const appendRows = (grid: HeatmapGrid, time: number, long: Record<number, number>, short: Record<number, number>, start = ROW_START, count = ROWS) =>
+  appendColumn(grid, time, start, rowValues(long, start, count), rowValues(short, start, count), count);
+
+describe('computeImbalanceSeries', () => {
+  it('sums longs below and shorts above the close, counting the close bucket for both', () => {
+    const grid = createHeatmapGrid(1);
+    appendRows(grid, 1000, { 97: 1, 100: 2, 103: 4 }, { 97: 8, 100: 3, 103: 5 });
+
+    const [ratio] = computeImbalanceSeries(grid, [candle(1000)], DEFAULT_IMBALANCE_CONFIG);
+    expect(ratio).toEqual({ time: 1000, value: 5 / 11, longDensity: 3, shortDensity: 8 });
+
+    const [difference] = computeImbalanceSeries(grid, [candle(1000)], { mode: 'difference', window: 5 });
+    expect(difference.value).toBe(5);
+  });
+
+  it('keeps to the window on each side of the close', () => {
+    const grid = createHeatmapGrid(1);
+    appendRows(grid, 1000, { 97: 1, 98: 2 }, { 102: 4, 103: 8 });
+
+    const [point] = computeImbalanceSeries(grid, [candle(1000)], { mode: 'difference', window: 2 });
+    expect(point.longDensity).toBe(2);
+    expect(point.shortDensity).toBe(4);
+  });
+
+  it('clips the window to the rows of the column', () => {
+    const grid = createHeatmapGrid(1);
+    appendRows(grid, 1000, { 99: 1, 100: 2 }, { 100: 3, 101: 4 }, 99, 3);
+    // A neighbouring column that a window past the rows would read into
+    appendRows(grid, 1060, { 95: 100 }, { 105: 100 });
+
+    const [narrow] = computeImbalanceSeries(grid, [candle(1000)], { mode: 'difference', window: 10 });
+    expect(narrow).toMatchObject({ longDensity: 3, shortDensity: 7 });
+
+    // A close above every row still reads only this column's longs
+    const [above] = computeImbalanceSeries(grid, [candle(1000, 110)], { mode: 'difference', window: 10 });
+    expect(above).toMatchObject({ longDensity: 3, shortDensity: 0 });
+  });
+
+  it('reports a neutral ratio for empty and zero-density columns', () => {
+    const grid = createHeatmapGrid(1);
+    appendRows(grid, 1000, {}, {});
+    appendColumn(grid, 1060, 100, [], [], 0);
+
+    const points = computeImbalanceSeries(grid, [candle(1000), candle(1060)], DEFAULT_IMBALANCE_CONFIG);
+    expect(points).toEqual([
+      { time: 1000, value: 0, longDensity: 0, shortDensity: 0 },
+      { time: 1060, value: 0, longDensity: 0, shortDensity: 0 }
+    ]);
+  });
+
+  it('skips columns without a candle at the same time', () => {
+    const grid = createHeatmapGrid(1);
+    appendRows(grid, 1000, { 99: 1 }, {});
+    appendRows(grid, 1060, { 99: 2 }, {});
+    appendRows(grid, 1120, { 99: 3 }, {});
+
+    const points = computeImbalanceSeries(grid, [candle(1060), candle(1120), candle(1180)], DEFAULT_IMBALANCE_CONFIG);
+    expect(points.map(p => [p.time, p.longDensity, p.value])).toEqual([[1060, 2, -1], [1120, 3, -1]]);
+    expect(computeImbalanceSeries(grid, [], DEFAULT_IMBALANCE_CONFIG)).toEqual([]);
+  });
+});
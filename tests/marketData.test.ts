@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { applyStreamCandle, mergeCandles } from '../services/marketData';
+import { Candle } from '../types';
+
+const candle = (time: number, close = 100): Candle => ({ time, open: 100, high: 110, low: 90, close, volume: 1 });
+const times = (candles: Candle[]) => candles.map(c => c.time);
+
+describe('mergeCandles', () => {
+  it('replaces overlapping candles and appends newer ones', () => {
+    const merged = mergeCandles([candle(1), candle(2), candle(3)], [candle(3, 120), candle(4)]);
+    expect(times(merged)).toEqual([1, 2, 3, 4]);
+    expect(merged[2].close).toBe(120);
+  });
+
+  it('keeps held candles newer than the incoming ones', () => {
+    // The stream advanced to 6 while a REST top-up for 3..4 was in flight
+    const held = [candle(1), candle(2), candle(3), candle(5), candle(6, 130)];
+    const merged = mergeCandles(held, [candle(3, 101), candle(4, 102)]);
+    expect(times(merged)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(merged.map(c => c.close)).toEqual([100, 100, 101, 102, 100, 130]);
+  });
+
+  it('sorts and dedupes the incoming candles, the last duplicate winning', () => {
+    const merged = mergeCandles([candle(1)], [candle(3), candle(2, 105), candle(2, 106)]);
+    expect(times(merged)).toEqual([1, 2, 3]);
+    expect(merged[1].close).toBe(106);
+  });
+
+  it('trims to the newest maxLength candles', () => {
+    const merged = mergeCandles([candle(1), candle(2), candle(5)], [candle(3), candle(4)], 3);
+    expect(times(merged)).toEqual([3, 4, 5]);
+  });
+
+  it('returns the held history when nothing arrives', () => {
+    const held = [candle(1)];
+    expect(mergeCandles(held, [])).toBe(held);
+  });
+});
+
+describe('applyStreamCandle', () => {
+  it('revises the forming candle and appends the next one', () => {
+    const candles = [candle(1), candle(2)];
+    expect(applyStreamCandle(candles, candle(2, 104))).toBe(true);
+    expect(applyStreamCandle(candles, candle(3))).toBe(true);
+    expect(times(candles)).toEqual([1, 2, 3]);
+    expect(candles[1].close).toBe(104);
+  });
+
+  it('ignores candles older than the forming one', () => {
+    const candles = [candle(1), candle(2)];
+    expect(applyStreamCandle(candles, candle(1, 50))).toBe(false);
+    expect(candles[0].close).toBe(100);
+  });
+
+  it('starts an empty history', () => {
+    const candles: Candle[] = [];
+    expect(applyStreamCandle(candles, candle(1))).toBe(true);
+    expect(candles).toHaveLength(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { AddressInfo } from 'node:net';
+import { WebSocketServer, WebSocket } from 'ws';
+
+/**
+ * Local stand-in for the Binance futures kline stream. Pushes kline events to every connected
+ * client and can drop or refuse connections to exercise reconnects.
+ */
+export interface MockKlineServer {
+  url: string; // Base URL to pass as KlineStreamOptions.url
+  paths: string[]; // Requested stream path of every accepted connection
+  attempts: number[]; // Time (ms) of every connection attempt, accepted or refused
+  sendKline: (kline: Record<string, unknown>) => void;
+  dropAll: () => void;
+  setRefusing: (refusing: boolean) => void;
+  close: () => Promise<void>;
+}
+
+export const startMockKlineServer = (): Promise<MockKlineServer> =>
+  new Promise(resolve => {
+    const paths: string[] = [];
+    const attempts: number[] = [];
+    let refusing = false;
+
+    const server = new WebSocketServer({
+      port: 0,
+      verifyClient: (_info, done) => {
+        attempts.push(Date.now());
+        done(!refusing, 503);
+      }
+    });
+
+    server.on('connection', (socket, request) => {
+      paths.push(request.url || '');
+    });
+
+    server.on('listening', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `ws://127.0.0.1:${port}/ws`,
+        paths,
+        attempts,
+        sendKline: kline => {
+          const message = JSON.stringify({ e: 'kline', E: Date.now(), k: kline });
+          server.clients.forEach(client => {
+            if (client.readyState === WebSocket.OPEN) client.send(message);
+          });
+        },
+        dropAll: () => server.clients.forEach(client => client.terminate()),
+        setRefusing: value => { refusing = value; },
+        close: () => new Promise(done => {
+          server.clients.forEach(client => client.terminate());
+          server.close(() => done());
+        })
+      });
+    });
+  });
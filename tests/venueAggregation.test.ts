@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { buildAggregateCandles, getVenueVolumeScales } from '../utils/venueAggregation';
+import { calculateHeatmapData } from '../utils/heatmapMath';
+import { getDensity } from '../utils/heatmapGrid';
+import { Candle, HeatmapOptions, LeverageTier } from '../types';
+import { createCandleSeries } from './candleSeries';
+
+const TIERS: LeverageTier[] = [{ leverage: 20, weight: 1 }, { leverage: 50, weight: 1 }];
+const candle = (time: number, volume: number): Candle => ({ time, open: 1, high: 1, low: 1, close: 1, volume });
+
+describe('buildAggregateCandles', () => {
+  it('lines venue volumes up with the base candles by open time', () => {
+    const base = [candle(60, 1), candle(120, 2), candle(180, 3)];
+    const other = [candle(0, 9), candle(120, 20), candle(180, 30), candle(240, 40)];
+    const aggregate = buildAggregateCandles(base, [base, other]);
+
+    expect(aggregate.map(c => c.time)).toEqual([60, 120, 180]);
+    expect(aggregate.map(c => c.venues)).toEqual([
+      [{ volume: 1, takerBuyVolume: undefined }, null],
+      [{ volume: 2, takerBuyVolume: undefined }, { volume: 20, takerBuyVolume: undefined }],
+      [{ volume: 3, takerBuyVolume: undefined }, { volume: 30, takerBuyVolume: undefined }]
+    ]);
+    // Prices and the base volume stay those of the chart's venue
+    expect(aggregate[1].volume).toBe(2);
+  });
+});
+
+describe('getVenueVolumeScales', () => {
+  it('brings every venue to the combined mean volume', () => {
+    const aggregate = buildAggregateCandles(
+      [candle(0, 10), candle(60, 30)],
+      [[candle(0, 10), candle(60, 30)], [candle(0, 100), candle(60, 300)], []]
+    );
+    // Means 20 and 200, combined 220; the venue without candles gets no weight
+    expect(getVenueVolumeScales(aggregate, 3)).toEqual([11, 1.1, 0]);
+  });
+});
+
+describe('aggregated heatmap', () => {
+  const base = createCandleSeries(300, 3);
+  const other = createCandleSeries(300, 5).map((c, i) => ({ ...base[i], volume: c.volume * 40, takerBuyVolume: c.takerBuyVolume! * 40 }));
+  const options: HeatmapOptions = { intervalSeconds: 3600, entryDistribution: 'ohlc4', takerSplit: true };
+
+  it('equals the single-venue heatmap with one venue', () => {
+    const aggregate = buildAggregateCandles(base, [base]);
+    const venues = [{ exchange: 'binance' as const, share: 1, volumeScale: getVenueVolumeScales(aggregate, 1)[0] }];
+    const single = calculateHeatmapData(base, TIERS, 0.25, options);
+    const aggregated = calculateHeatmapData(aggregate, TIERS, 0.25, { ...options, venues });
+
+    expect(aggregated.grid.length).toBe(single.grid.length);
+    expect(Array.from(aggregated.grid.longDensity.subarray(0, aggregated.grid.offsets[aggregated.grid.length])))
+      .toEqual(Array.from(single.grid.longDensity.subarray(0, single.grid.offsets[single.grid.length])));
+    expect(aggregated.liquidations).toEqual(single.liquidations);
+  });
+
+  it('splits every cell into per-venue layers by share', () => {
+    const aggregate = buildAggregateCandles(base, [base, other]);
+    const scales = getVenueVolumeScales(aggregate, 2);
+    const venues = [
+      { exchange: 'binance' as const, share: 0.7, volumeScale: scales[0] },
+      { exchange: 'okx' as const, share: 0.3, volumeScale: scales[1] }
+    ];
+    const { grid, venueLayers } = calculateHeatmapData(aggregate, TIERS, 0.25, { ...options, venues });
+    expect(venueLayers.map(layer => layer.exchange)).toEqual(['binance', 'okx']);
+
+    let cells = 0;
+    let binanceTotal = 0;
+    let okxTotal = 0;
+    for (let column = 0; column < grid.length; column += 25) {
+      for (let row = grid.rowStart[column]; row < grid.rowEnd[column]; row++) {
+        const blended = getDensity(grid, column, row);
+        const binance = getDensity(venueLayers[0].grid, column, row);
+        const okx = getDensity(venueLayers[1].grid, column, row);
+        expect(Math.abs(binance + okx - blended)).toBeLessThanOrEqual(blended * 1e-5 + 1e-9);
+        binanceTotal += binance;
+        okxTotal += okx;
+        cells++;
+      }
+    }
+    expect(cells).toBeGreaterThan(0);
+    // Normalized volumes: the 40x larger venue does not swamp the smaller one
+    expect(binanceTotal / (binanceTotal + okxTotal)).toBeGreaterThan(0.6);
+    expect(binanceTotal / (binanceTotal + okxTotal)).toBeLessThan(0.8);
+  });
+});
@@ -6,8 +6,39 @@ export interface Candle {
   low: number;
   close: number;
   volume: number;
+  takerBuyVolume?: number; // Base asset volume bought by takers (aggressive buyers)
+  trades?: number;
+  venues?: (VenueVolume | null)[]; // Aggregated candles: per-venue volume in HeatmapOptions.venues order, null where a venue has no candle
 }
 
+export interface VenueVolume {
+  volume: number;
+  takerBuyVolume?: number;
+}
+
+// Column-oriented candle storage, used to move large histories between threads as transferables
+export interface CandleColumns {
+  length: number;
+  time: Float64Array;
+  open: Float64Array;
+  high: Float64Array;
+  low: Float64Array;
+  close: Float64Array;
+  volume: Float64Array;
+  takerBuyVolume: Float64Array; // NaN where the source does not report it
+  trades: Float64Array; // NaN where the source does not report it
+  venueVolume: Float64Array[]; // Per venue of aggregated candles; NaN where the venue has no candle
+  venueTakerBuyVolume: Float64Array[];
+}
+
+// Part of the worker's previous compute history kept for the next one: held[drop .. drop + keep)
+export interface CandleReuse {
+  drop: number;
+  keep: number;
+}
+
+export type ExchangeId = 'binance' | 'bybit' | 'okx';
+
 export type Timeframe = '1m' | '3m' | '5m' | '15m' | '30m' | '1h' | '2h' | '4h' | '6h' | '8h' | '12h' | '1d' | '3d' | '1w' | '1M';
 
 export enum Leverage {
@@ -22,25 +53,137 @@ export enum Leverage {
   MAX = 125,
 }
 
+export interface LeverageTier {
+  leverage: number;
+  weight: number; // Relative share of open interest at this leverage (normalized by the engine)
+}
+
+export interface VenueShare {
+  exchange: ExchangeId;
+  weight: number; // Relative share of the aggregated heatmap (normalized before use)
+}
+
+// One venue of an aggregated heatmap, as passed to the engine
+export interface HeatmapVenue {
+  exchange: ExchangeId;
+  share: number; // Normalized; the shares of all venues sum to 1
+  volumeScale: number; // Brings the venue's volume to a common level (see getVenueVolumeScales)
+}
+
+export type LiquidationModel = 'naive' | 'exchange';
+
+export interface MarginBracket {
+  notionalFloor: number;
+  notionalCap: number;
+  maintMarginRatio: number;
+  maxLeverage: number;
+  cum: number; // Maintenance amount deducted at this bracket
+}
+
+export type EntryDistribution = 'close' | 'ohlc4' | 'uniform' | 'triangular';
+
+export interface EntryPoint {
+  price: number;
+  weight: number; // Share of the candle's intensity opened at this price (sums to 1 per candle)
+}
+
+export type HalfLifeMode = 'off' | 'bars' | 'hours';
+
+export interface HalfLifeConfig {
+  mode: HalfLifeMode;
+  value: number; // Half-life in bars or hours, depending on mode
+}
+
+export type BucketMode = 'percent' | 'log' | 'tick';
+
+export interface BucketConfig {
+  mode: BucketMode;
+  value: number; // Percent of price for 'percent'/'log', ticks per bucket for 'tick'
+}
+
+// Row spacing of the heatmap grid: constant price step, or constant step in log(price)
+export type GridScale = 'linear' | 'log';
+
+export interface HeatmapOptions {
+  symbol?: string;
+  liquidationModel?: LiquidationModel;
+  entryDistribution?: EntryDistribution;
+  entrySamples?: number; // Number of entry prices for the range-based distributions
+  takerSplit?: boolean; // Weight long/short levels by the candle's taker buy/sell share
+  halfLife?: HalfLifeConfig; // Decay of level strength with age (positions closed voluntarily)
+  intervalSeconds?: number; // Bar duration, used to convert a half-life in bars to seconds
+  bucketScale?: GridScale; // How bucketSize is applied to price (default 'linear')
+  tierLayers?: boolean; // Also build one grid per leverage tier
+  levelAges?: boolean; // Also track the mean level age per cell (blended grid only)
+  venues?: HeatmapVenue[]; // Aggregate Candle.venues into one map; also builds one grid per venue
+}
+
 export interface LiquidationLevel {
   price: number;
   volume: number; // Represents the strength of the level (based on candle volume)
   type: 'long' | 'short';
+  leverage: number; // Tier that produced the level
   creationTime: number;
+  venue?: number; // Index into HeatmapOptions.venues, for aggregated heatmaps
 }
 
-export interface HeatmapBucket {
-  price: number; // Midpoint of bucket
-  density: number; // Aggregated strength
+export interface LiquidationEvent {
+  time: number;
+  longVolume: number; // Estimated long liquidations swept by this candle's low
+  shortVolume: number; // Estimated short liquidations swept by this candle's high
 }
 
-export interface HeatmapSnapshot {
-  time: number;
-  buckets: HeatmapBucket[];
+/**
+ * Columnar heatmap storage: one column per candle on a fixed price grid. On a linear grid
+ * row r covers [r * bucketSize, (r + 1) * bucketSize); on a log grid it covers
+ * [exp(r * bucketSize), exp((r + 1) * bucketSize)). Each column only stores the
+ * contiguous row range [rowStart, rowEnd) that holds levels, packed back to back in the
+ * per-side density arrays (long and short liquidations share the same layout).
+ * Arrays may be longer than `length` (spare capacity for appending).
+ */
+export interface HeatmapGrid {
+  bucketSize: number; // Row height in price (linear) or in log(price) (log)
+  scale: GridScale;
+  length: number; // Number of columns in use
+  times: Float64Array;
+  rowStart: Int32Array;
+  rowEnd: Int32Array; // Exclusive
+  offsets: Uint32Array; // offsets[i] = start of column i in the density arrays; offsets[length] = values in use
+  longDensity: Float32Array;
+  shortDensity: Float32Array;
+  ages: Float32Array | null; // Density-weighted mean level age in seconds (both sides), when tracked
+}
+
+export type HeatmapColorMode = 'density' | 'age';
+
+export interface HeatmapTierLayer {
+  leverage: number;
+  grid: HeatmapGrid;
+  maxDensity: number; // Largest single-side cell density in this layer
+}
+
+export interface HeatmapVenueLayer {
+  exchange: ExchangeId;
+  grid: HeatmapGrid;
+  maxDensity: number; // Largest single-side cell density in this layer
 }
 
 export interface HeatmapCalculationResult {
-  snapshots: HeatmapSnapshot[];
+  grid: HeatmapGrid;
+  tierLayers: HeatmapTierLayer[]; // Empty unless HeatmapOptions.tierLayers is set
+  venueLayers: HeatmapVenueLayer[]; // Empty unless HeatmapOptions.venues is set
+  liquidations: LiquidationEvent[]; // One entry per candle, aligned with grid columns
+  globalMaxDensity: number; // Largest single-side cell density
+}
+
+export interface HeatmapUpdate {
+  reset: boolean; // True when everything was recomputed and previous results must be discarded
+  dropCount: number; // Columns removed from the front (history window slid forward)
+  fromIndex: number; // Index (after dropping) of the first changed column
+  grid: HeatmapGrid; // Changed columns, from fromIndex to the end
+  tierLayers: HeatmapTierLayer[]; // Same columns, per tier
+  venueLayers: HeatmapVenueLayer[]; // Same columns, per venue
+  liquidations: LiquidationEvent[];
   globalMaxDensity: number;
 }
 
@@ -59,7 +202,82 @@ export interface HeatmapTheme {
 export interface CrosshairData {
   price: number;
   density: number;
+  longDensity: number;
+  shortDensity: number;
   normalizedDensity: number;
+  venues?: { exchange: ExchangeId; density: number }[]; // Aggregated heatmaps: the cell per venue
+}
+
+// A significant local maximum of liquidation density in one heatmap column
+export interface LiquidationCluster {
+  price: number; // Middle of the bucket
+  side: 'long' | 'short';
+  density: number;
+  strength: number; // density relative to the column's strongest bucket (0..1]
+  prominence: number; // Height above the surrounding valley, relative to the strongest bucket
+  age: number; // Consecutive bars (up to and including this column) the level has held at least half its density
+  since: number; // Time of the first of those bars
+}
+
+// Outcome of the strongest cluster on one side, aggregated over every bar of a heatmap
+export interface ClusterHitStats {
+  label: string; // Settings the heatmap was computed with (leverage, bucketing)
+  side: 'long' | 'short';
+  horizon: number; // Bars a cluster is given to be reached
+  samples: number;
+  hits: number;
+  hitRate: number; // 0..1
+  avgBarsToHit: number; // Over hits only
+  avgOvershoot: number; // % price travelled beyond the level after a hit, within the horizon
+  avgDistance: number; // % from the close to the level when it was picked
+}
+
+export type ImbalanceMode = 'ratio' | 'difference';
+
+export interface ImbalanceConfig {
+  mode: ImbalanceMode;
+  window: number; // % of price scanned below (longs) and above (shorts) the close
+}
+
+// Long vs short density near price for one bar; positive values mean shorts dominate
+export interface ImbalancePoint {
+  time: number;
+  value: number; // (short - long) / (short + long) for 'ratio', short - long for 'difference'
+  longDensity: number;
+  shortDensity: number;
+}
+
+// Levels one origin candle opened at one leverage that sit in an inspected heatmap cell
+export interface LevelContribution {
+  time: number; // Origin candle
+  side: 'long' | 'short';
+  leverage: number;
+  weight: number; // Decayed volume at the inspected column
+  age: number; // Bars from the origin candle to the inspected column
+}
+
+// Breakdown of one heatmap cell into the levels that built it
+export interface CellProvenance {
+  time: number; // Inspected column
+  priceLow: number;
+  priceHigh: number;
+  total: number;
+  contributions: LevelContribution[]; // Strongest first
+}
+
+// Display settings of one per-leverage heatmap layer
+export interface TierLayerStyle {
+  visible: boolean;
+  opacity: number; // 0..1
+  color: string; // Hex
+}
+
+export type TierLayerStyles = { [leverage: number]: TierLayerStyle };
+
+// Which liquidation sides the heatmap draws
+export interface HeatmapSideVisibility {
+  long: boolean;
+  short: boolean;
 }
 
 // --- Drawing Tools Types ---
@@ -96,4 +314,20 @@ export interface Drawing {
     type: DrawingToolType;
     points: ChartPoint[]; 
     style: DrawingStyle;
-}
\ No newline at end of file
+}
+
+// --- Worker Protocol Types ---
+
+export type HeatmapWorkerRequest =
+    | { type: 'load'; jobId: number; exchange: ExchangeId; symbol: string; interval: Timeframe; limit: number; startTime?: number } // startTime: forward fetch from this open time (seconds)
+    | { type: 'compute'; jobId: number; engineKey: string; leverageTiers: LeverageTier[]; bucketSize: number; options: HeatmapOptions; candles: CandleColumns; reuse?: CandleReuse } // reuse: `candles` only holds the tail after the kept candles
+    | { type: 'provenance'; jobId: number; engineKey: string; time: number; price: number } // Cell of the engine's current grid
+    | { type: 'cancel'; jobId: number };
+
+export type HeatmapWorkerResponse =
+    | { type: 'candles'; jobId: number; candles: CandleColumns }
+    | { type: 'progress'; jobId: number; progress: number }
+    | { type: 'heatmap'; jobId: number; update: HeatmapUpdate }
+    | { type: 'provenance'; jobId: number; provenance: CellProvenance | null }
+    | { type: 'cancelled'; jobId: number }
+    | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,33 @@
+// Age (in bars) at which the hue scale saturates at "stale"
+export const AGE_SPAN_BARS = 200;
+
+// Hue steps of the age LUT; density picks the entry within a step
+export const AGE_HUE_STEPS = 24;
+
+const FRESH_HUE = 45; // Amber
+const STALE_HUE = 220; // Blue
+
+// Position of an age on the fresh (0) .. stale (1) scale; logarithmic so recent bars stay distinguishable
+export const getAgeFraction = (ageSeconds: number, intervalSeconds: number): number => {
+  if (!(ageSeconds > 0) || !(intervalSeconds > 0)) return 0;
+  return Math.min(1, Math.log1p(ageSeconds / intervalSeconds) / Math.log1p(AGE_SPAN_BARS));
+};
+
+export const getAgeHue = (fraction: number): number => FRESH_HUE + (STALE_HUE - FRESH_HUE) * fraction;
+
+/**
+ * Colors indexed by [hue step][density 0..100]: hue encodes age, lightness and alpha encode density.
+ */
+export const buildAgeLUT = (): string[][] => {
+  const lut: string[][] = [];
+  for (let h = 0; h < AGE_HUE_STEPS; h++) {
+    const hue = Math.round(getAgeHue(h / (AGE_HUE_STEPS - 1)));
+    const ramp: string[] = [];
+    for (let i = 0; i <= 100; i++) {
+      const d = i / 100;
+      ramp.push(`hsla(${hue},90%,${Math.round(20 + d * 45)}%,${(0.35 + d * 0.6).toFixed(2)})`);
+    }
+    lut.push(ramp);
+  }
+  return lut;
+};
@@ -0,0 +1,94 @@
+import { Candle, CandleColumns, CandleReuse } from '../types';
+
+export const createCandleColumns = (length: number, venueCount: number = 0): CandleColumns => ({
+  length,
+  time: new Float64Array(length),
+  open: new Float64Array(length),
+  high: new Float64Array(length),
+  low: new Float64Array(length),
+  close: new Float64Array(length),
+  volume: new Float64Array(length),
+  takerBuyVolume: new Float64Array(length),
+  trades: new Float64Array(length),
+  venueVolume: Array.from({ length: venueCount }, () => new Float64Array(length)),
+  venueTakerBuyVolume: Array.from({ length: venueCount }, () => new Float64Array(length)),
+});
+
+export const packCandles = (candles: Candle[]): CandleColumns => {
+  const venueCount = candles[0]?.venues?.length ?? 0;
+  const cols = createCandleColumns(candles.length, venueCount);
+  for (let i = 0; i < candles.length; i++) {
+    const c = candles[i];
+    cols.time[i] = c.time;
+    cols.open[i] = c.open;
+    cols.high[i] = c.high;
+    cols.low[i] = c.low;
+    cols.close[i] = c.close;
+    cols.volume[i] = c.volume;
+    cols.takerBuyVolume[i] = c.takerBuyVolume ?? NaN;
+    cols.trades[i] = c.trades ?? NaN;
+    for (let v = 0; v < venueCount; v++) {
+      const venue = c.venues?.[v];
+      cols.venueVolume[v][i] = venue ? venue.volume : NaN;
+      cols.venueTakerBuyVolume[v][i] = venue?.takerBuyVolume ?? NaN;
+    }
+  }
+  return cols;
+};
+
+export const unpackCandles = (cols: CandleColumns): Candle[] => {
+  // Columns cached before aggregation existed have no venue arrays
+  const venueCount = cols.venueVolume ? cols.venueVolume.length : 0;
+  const candles: Candle[] = new Array(cols.length);
+  for (let i = 0; i < cols.length; i++) {
+    const candle: Candle = {
+      time: cols.time[i],
+      open: cols.open[i],
+      high: cols.high[i],
+      low: cols.low[i],
+      close: cols.close[i],
+      volume: cols.volume[i],
+    };
+    if (!isNaN(cols.takerBuyVolume[i])) candle.takerBuyVolume = cols.takerBuyVolume[i];
+    if (!isNaN(cols.trades[i])) candle.trades = cols.trades[i];
+    if (venueCount > 0) {
+      candle.venues = new Array(venueCount);
+      for (let v = 0; v < venueCount; v++) {
+        const volume = cols.venueVolume[v][i];
+        const takerBuyVolume = cols.venueTakerBuyVolume[v][i];
+        candle.venues[v] = isNaN(volume) ? null : isNaN(takerBuyVolume) ? { volume } : { volume, takerBuyVolume };
+      }
+    }
+    candles[i] = candle;
+  }
+  return candles;
+};
+
+// Buffers to list as transferables when posting columns to/from a worker
+export const getCandleTransferables = (cols: CandleColumns): ArrayBuffer[] => [
+  cols.time.buffer as ArrayBuffer,
+  cols.open.buffer as ArrayBuffer,
+  cols.high.buffer as ArrayBuffer,
+  cols.low.buffer as ArrayBuffer,
+  cols.close.buffer as ArrayBuffer,
+  cols.volume.buffer as ArrayBuffer,
+  cols.takerBuyVolume.buffer as ArrayBuffer,
+  cols.trades.buffer as ArrayBuffer,
+  ...cols.venueVolume.map(col => col.buffer as ArrayBuffer),
+  ...cols.venueTakerBuyVolume.map(col => col.buffer as ArrayBuffer),
+];
+
+/**
+ * How much of `held` (the history the worker computed last) carries over to `candles`, so only
+ * the candles after the kept ones need to cross the thread boundary. The last held candle was
+ * still forming and is always resent. null when the histories don't line up (replaced, extended
+ * backwards, or candles filled in between).
+ */
+export const getCandleReuse = (held: Candle[], candles: Candle[]): CandleReuse | null => {
+  if (held.length < 2 || candles.length === 0) return null;
+  const drop = held.findIndex(c => c.time >= candles[0].time);
+  if (drop === -1 || held[drop].time !== candles[0].time) return null;
+  const keep = Math.min(held.length - 1 - drop, candles.length - 1);
+  if (keep <= 0 || candles[keep - 1].time !== held[drop + keep - 1].time) return null;
+  return { drop, keep };
+};
@@ -0,0 +1,112 @@
+import { HeatmapGrid, LiquidationCluster, LiquidationLevel } from '../types';
+import { getDensity, rowToPrice } from './heatmapGrid';
+
+export interface ClusterDetectionOptions {
+  minProminence: number; // Fraction of the strongest bucket a peak must rise above its valley
+  minSeparation: number; // Minimum distance between clusters of the same side, as a fraction of price
+  minDensity: number; // Fraction of the strongest bucket a peak must reach
+  maxClusters: number; // Per side
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterDetectionOptions = {
+  minProminence: 0.15,
+  minSeparation: 0.004,
+  minDensity: 0.25,
+  maxClusters: 4,
+};
+
+// Bars looked back when measuring a cluster's age
+const MAX_AGE_LOOKBACK = 5000;
+
+/**
+ * Topographic prominence of every index: height above the higher of the two lowest points
+ * reached before meeting a taller value (or the edge) on either side.
+ */
+const getProminence = (values: Float64Array, i: number): number => {
+  const v = values[i];
+  // Running off the edge counts as dropping to zero
+  let left = 0;
+  let min = v;
+  for (let j = i - 1; j >= 0; j--) {
+    if (values[j] > v) { left = min; break; }
+    if (values[j] < min) min = values[j];
+  }
+  let right = 0;
+  min = v;
+  for (let j = i + 1; j < values.length; j++) {
+    if (values[j] > v) { right = min; break; }
+    if (values[j] < min) min = values[j];
+  }
+  return v - Math.max(left, right);
+};
+
+// Bars the level at `row` has held at least half of `density`, walking back from `column`
+const getClusterAge = (grid: HeatmapGrid, column: number, row: number, side: LiquidationLevel['type'], density: number) => {
+  let first = column;
+  const stop = Math.max(0, column - MAX_AGE_LOOKBACK);
+  while (first - 1 >= stop && getDensity(grid, first - 1, row, side) >= density * 0.5) {
+    first--;
+  }
+  return { age: column - first + 1, since: grid.times[first] };
+};
+
+/**
+ * Finds significant liquidation clusters in one heatmap column (the buckets of its snapshot,
+ * read straight from the grid so empty rows between buckets are kept).
+ * Peaks are local maxima per side that pass the density and prominence thresholds; the strongest
+ * are kept first and weaker peaks too close to an accepted one are dropped.
+ */
+export const detectClusters = (
+  grid: HeatmapGrid,
+  column: number,
+  options: ClusterDetectionOptions = DEFAULT_CLUSTER_OPTIONS
+): LiquidationCluster[] => {
+  if (column < 0 || column >= grid.length) return [];
+
+  const firstRow = grid.rowStart[column];
+  const rowCount = grid.rowEnd[column] - firstRow;
+  const offset = grid.offsets[column];
+
+  let maxDensity = 0;
+  for (let k = 0; k < rowCount; k++) {
+    maxDensity = Math.max(maxDensity, grid.longDensity[offset + k], grid.shortDensity[offset + k]);
+  }
+  if (maxDensity <= 0) return [];
+
+  const clusters: LiquidationCluster[] = [];
+
+  for (const side of ['long', 'short'] as const) {
+    const source = side === 'long' ? grid.longDensity : grid.shortDensity;
+    const values = Float64Array.from(source.subarray(offset, offset + rowCount));
+
+    const candidates: { row: number; density: number; prominence: number }[] = [];
+    for (let k = 0; k < rowCount; k++) {
+      const v = values[k];
+      const isPeak = v > 0 && (k === 0 || v > values[k - 1]) && (k === rowCount - 1 || v >= values[k + 1]);
+      if (!isPeak || v < options.minDensity * maxDensity) continue;
+      const prominence = getProminence(values, k);
+      if (prominence < options.minProminence * maxDensity) continue;
+      candidates.push({ row: firstRow + k, density: v, prominence });
+    }
+    candidates.sort((a, b) => b.density - a.density);
+
+    const accepted: LiquidationCluster[] = [];
+    for (const c of candidates) {
+      if (accepted.length >= options.maxClusters) break;
+      const price = (rowToPrice(grid, c.row) + rowToPrice(grid, c.row + 1)) / 2;
+      if (accepted.some(a => Math.abs(a.price - price) / price < options.minSeparation)) continue;
+
+      accepted.push({
+        price,
+        side,
+        density: c.density,
+        strength: c.density / maxDensity,
+        prominence: c.prominence / maxDensity,
+        ...getClusterAge(grid, column, c.row, side, c.density)
+      });
+    }
+    clusters.push(...accepted);
+  }
+
+  return clusters;
+};
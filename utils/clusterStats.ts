@@ -0,0 +1,96 @@
+import { Candle, HeatmapGrid, ClusterHitStats, LiquidationLevel } from '../types';
+import { rowToPrice } from './heatmapGrid';
+
+export const DEFAULT_HIT_HORIZON = 50;
+
+// Densest row of one side strictly on the given side of the close: below for longs, above for shorts
+const findStrongestLevel = (grid: HeatmapGrid, column: number, side: LiquidationLevel['type'], close: number): number | null => {
+  const values = side === 'long' ? grid.longDensity : grid.shortDensity;
+  const start = grid.rowStart[column];
+  const offset = grid.offsets[column];
+
+  let bestPrice: number | null = null;
+  let best = 0;
+  for (let row = start; row < grid.rowEnd[column]; row++) {
+    const density = values[offset + row - start];
+    if (density <= best) continue;
+    const price = (rowToPrice(grid, row) + rowToPrice(grid, row + 1)) / 2;
+    if (side === 'long' ? price >= close : price <= close) continue;
+    best = density;
+    bestPrice = price;
+  }
+  return bestPrice;
+};
+
+/**
+ * Walks every bar, takes the strongest cluster below (long liquidations) and above (short
+ * liquidations) the close and checks whether price reaches it within `horizon` bars.
+ * Bars too close to the end to see a full horizon are skipped. Grid columns and candles
+ * must be aligned (one column per candle).
+ */
+export const analyzeClusterHits = (
+  grid: HeatmapGrid,
+  candles: Candle[],
+  label: string,
+  horizon: number = DEFAULT_HIT_HORIZON
+): ClusterHitStats[] => {
+  const length = Math.min(grid.length, candles.length);
+
+  return (['long', 'short'] as const).map(side => {
+    let samples = 0;
+    let hits = 0;
+    let barsToHit = 0;
+    let overshoot = 0;
+    let distance = 0;
+
+    for (let i = 0; i + horizon < length; i++) {
+      const close = candles[i].close;
+      const level = findStrongestLevel(grid, i, side, close);
+      if (level === null) continue;
+
+      samples++;
+      distance += Math.abs(level - close) / close * 100;
+
+      let hitAt = -1;
+      let extreme = level;
+      for (let j = i + 1; j <= i + horizon; j++) {
+        const c = candles[j];
+        if (hitAt === -1 && (side === 'long' ? c.low <= level : c.high >= level)) hitAt = j;
+        if (hitAt !== -1) extreme = side === 'long' ? Math.min(extreme, c.low) : Math.max(extreme, c.high);
+      }
+
+      if (hitAt !== -1) {
+        hits++;
+        barsToHit += hitAt - i;
+        overshoot += Math.abs(extreme - level) / level * 100;
+      }
+    }
+
+    return {
+      label,
+      side,
+      horizon,
+      samples,
+      hits,
+      hitRate: samples > 0 ? hits / samples : 0,
+      avgBarsToHit: hits > 0 ? barsToHit / hits : 0,
+      avgOvershoot: hits > 0 ? overshoot / hits : 0,
+      avgDistance: samples > 0 ? distance / samples : 0
+    };
+  });
+};
+
+const CSV_COLUMNS: (keyof ClusterHitStats)[] = [
+  'label', 'side', 'horizon', 'samples', 'hits', 'hitRate', 'avgBarsToHit', 'avgOvershoot', 'avgDistance'
+];
+
+export const clusterStatsToCsv = (rows: ClusterHitStats[]): string => {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(key => escape(row[key])).join(','))
+  ].join('\n');
+};
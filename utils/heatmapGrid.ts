@@ -0,0 +1,220 @@
+import { HeatmapGrid, GridScale, LiquidationLevel } from '../types';
+
+export const createHeatmapGrid = (
+  bucketSize: number,
+  scale: GridScale = 'linear',
+  columnCapacity: number = 1024,
+  valueCapacity: number = columnCapacity * 64,
+  trackAges: boolean = false
+): HeatmapGrid => ({
+  bucketSize,
+  scale,
+  length: 0,
+  times: new Float64Array(columnCapacity),
+  rowStart: new Int32Array(columnCapacity),
+  rowEnd: new Int32Array(columnCapacity),
+  offsets: new Uint32Array(columnCapacity + 1),
+  longDensity: new Float32Array(valueCapacity),
+  shortDensity: new Float32Array(valueCapacity),
+  ages: trackAges ? new Float32Array(valueCapacity) : null,
+});
+
+// Non-positive prices have no row on a log grid (-Infinity)
+export const priceToRow = (grid: HeatmapGrid, price: number): number => {
+  if (grid.scale === 'log') return price > 0 ? Math.floor(Math.log(price) / grid.bucketSize) : -Infinity;
+  return Math.floor(price / grid.bucketSize);
+};
+
+// Bottom price of a row
+export const rowToPrice = (grid: HeatmapGrid, row: number): number => {
+  if (grid.scale === 'log') return Math.exp(row * grid.bucketSize);
+  return row * grid.bucketSize;
+};
+
+export const getValueCount = (grid: HeatmapGrid): number => grid.offsets[grid.length];
+
+// Grows the backing arrays (doubling) so that the given totals fit
+const ensureCapacity = (grid: HeatmapGrid, columns: number, values: number) => {
+  if (columns > grid.times.length) {
+    const cap = Math.max(columns, grid.times.length * 2);
+    const times = new Float64Array(cap);
+    times.set(grid.times.subarray(0, grid.length));
+    const rowStart = new Int32Array(cap);
+    rowStart.set(grid.rowStart.subarray(0, grid.length));
+    const rowEnd = new Int32Array(cap);
+    rowEnd.set(grid.rowEnd.subarray(0, grid.length));
+    const offsets = new Uint32Array(cap + 1);
+    offsets.set(grid.offsets.subarray(0, grid.length + 1));
+    grid.times = times;
+    grid.rowStart = rowStart;
+    grid.rowEnd = rowEnd;
+    grid.offsets = offsets;
+  }
+  if (values > grid.longDensity.length) {
+    const cap = Math.max(values, grid.longDensity.length * 2);
+    const used = getValueCount(grid);
+    const longDensity = new Float32Array(cap);
+    longDensity.set(grid.longDensity.subarray(0, used));
+    const shortDensity = new Float32Array(cap);
+    shortDensity.set(grid.shortDensity.subarray(0, used));
+    grid.longDensity = longDensity;
+    grid.shortDensity = shortDensity;
+    if (grid.ages) {
+      const ages = new Float32Array(cap);
+      ages.set(grid.ages.subarray(0, used));
+      grid.ages = ages;
+    }
+  }
+};
+
+/**
+ * Appends a column holding `count` rows starting at `rowStart`.
+ * `ageValues` is only read when the grid tracks ages.
+ */
+export const appendColumn = (
+  grid: HeatmapGrid,
+  time: number,
+  rowStart: number,
+  longValues: ArrayLike<number>,
+  shortValues: ArrayLike<number>,
+  count: number,
+  ageValues?: ArrayLike<number>
+) => {
+  const valueStart = getValueCount(grid);
+  ensureCapacity(grid, grid.length + 1, valueStart + count);
+
+  const i = grid.length;
+  grid.times[i] = time;
+  grid.rowStart[i] = rowStart;
+  grid.rowEnd[i] = rowStart + count;
+  for (let k = 0; k < count; k++) {
+    grid.longDensity[valueStart + k] = longValues[k];
+    grid.shortDensity[valueStart + k] = shortValues[k];
+  }
+  if (grid.ages) {
+    for (let k = 0; k < count; k++) grid.ages[valueStart + k] = ageValues ? ageValues[k] : 0;
+  }
+  grid.offsets[i + 1] = valueStart + count;
+  grid.length = i + 1;
+};
+
+// Removes columns from the end
+export const truncateColumns = (grid: HeatmapGrid, length: number) => {
+  if (length < grid.length) grid.length = Math.max(0, length);
+};
+
+// Removes columns from the front, shifting the rest down
+export const dropColumns = (grid: HeatmapGrid, count: number) => {
+  if (count <= 0) return;
+  if (count >= grid.length) {
+    grid.length = 0;
+    return;
+  }
+  const valueShift = grid.offsets[count];
+  const valueCount = getValueCount(grid);
+  const remaining = grid.length - count;
+
+  grid.times.copyWithin(0, count, grid.length);
+  grid.rowStart.copyWithin(0, count, grid.length);
+  grid.rowEnd.copyWithin(0, count, grid.length);
+  grid.longDensity.copyWithin(0, valueShift, valueCount);
+  grid.shortDensity.copyWithin(0, valueShift, valueCount);
+  grid.ages?.copyWithin(0, valueShift, valueCount);
+  for (let i = 0; i <= remaining; i++) {
+    grid.offsets[i] = grid.offsets[i + count] - valueShift;
+  }
+  grid.length = remaining;
+};
+
+/**
+ * Copies columns [from, length) into a new, tightly sized grid (e.g. to ship as an update).
+ */
+export const sliceColumns = (grid: HeatmapGrid, from: number): HeatmapGrid => {
+  const start = Math.min(Math.max(0, from), grid.length);
+  const columns = grid.length - start;
+  const valueStart = grid.offsets[start];
+  const valueCount = getValueCount(grid) - valueStart;
+
+  const out = createHeatmapGrid(grid.bucketSize, grid.scale, columns, valueCount, grid.ages !== null);
+  out.times.set(grid.times.subarray(start, grid.length));
+  out.rowStart.set(grid.rowStart.subarray(start, grid.length));
+  out.rowEnd.set(grid.rowEnd.subarray(start, grid.length));
+  out.longDensity.set(grid.longDensity.subarray(valueStart, valueStart + valueCount));
+  out.shortDensity.set(grid.shortDensity.subarray(valueStart, valueStart + valueCount));
+  if (grid.ages && out.ages) out.ages.set(grid.ages.subarray(valueStart, valueStart + valueCount));
+  for (let i = 0; i <= columns; i++) {
+    out.offsets[i] = grid.offsets[start + i] - valueStart;
+  }
+  out.length = columns;
+  return out;
+};
+
+// Appends every column of `other` (same price grid) to `grid`
+export const appendGrid = (grid: HeatmapGrid, other: HeatmapGrid) => {
+  const baseColumn = grid.length;
+  const baseValue = getValueCount(grid);
+  const otherValues = getValueCount(other);
+  ensureCapacity(grid, baseColumn + other.length, baseValue + otherValues);
+
+  grid.times.set(other.times.subarray(0, other.length), baseColumn);
+  grid.rowStart.set(other.rowStart.subarray(0, other.length), baseColumn);
+  grid.rowEnd.set(other.rowEnd.subarray(0, other.length), baseColumn);
+  grid.longDensity.set(other.longDensity.subarray(0, otherValues), baseValue);
+  grid.shortDensity.set(other.shortDensity.subarray(0, otherValues), baseValue);
+  if (grid.ages && other.ages) grid.ages.set(other.ages.subarray(0, otherValues), baseValue);
+  for (let i = 1; i <= other.length; i++) {
+    grid.offsets[baseColumn + i] = baseValue + other.offsets[i];
+  }
+  grid.length = baseColumn + other.length;
+};
+
+// Density of one cell for one side, or both sides when omitted; 0 outside the column's stored range
+export const getDensity = (grid: HeatmapGrid, column: number, row: number, side?: LiquidationLevel['type']): number => {
+  if (column < 0 || column >= grid.length) return 0;
+  const start = grid.rowStart[column];
+  if (row < start || row >= grid.rowEnd[column]) return 0;
+  const index = grid.offsets[column] + row - start;
+  if (side === 'long') return grid.longDensity[index];
+  if (side === 'short') return grid.shortDensity[index];
+  return grid.longDensity[index] + grid.shortDensity[index];
+};
+
+/**
+ * Rows of one column that are local maxima of the density (one side, or both when omitted),
+ * strongest first. Only rows within [minRow, maxRow] are considered.
+ */
+export const getColumnPeaks = (
+  grid: HeatmapGrid,
+  column: number,
+  count: number,
+  side?: LiquidationLevel['type'],
+  minRow: number = -Infinity,
+  maxRow: number = Infinity
+): number[] => {
+  if (column < 0 || column >= grid.length || count <= 0) return [];
+  const from = Math.max(grid.rowStart[column], minRow);
+  const to = Math.min(grid.rowEnd[column] - 1, maxRow);
+
+  const peaks: { row: number; density: number }[] = [];
+  for (let row = from; row <= to; row++) {
+    const density = getDensity(grid, column, row, side);
+    if (density <= 0) continue;
+    // Plateaus count once (strictly greater than the row below)
+    if (density > getDensity(grid, column, row - 1, side) && density >= getDensity(grid, column, row + 1, side)) {
+      peaks.push({ row, density });
+    }
+  }
+  peaks.sort((a, b) => b.density - a.density);
+  return peaks.slice(0, count).map(p => p.row);
+};
+
+// Buffers to list as transferables when posting a grid to/from a worker
+export const getGridTransferables = (grid: HeatmapGrid): ArrayBuffer[] => [
+  grid.times.buffer as ArrayBuffer,
+  grid.rowStart.buffer as ArrayBuffer,
+  grid.rowEnd.buffer as ArrayBuffer,
+  grid.offsets.buffer as ArrayBuffer,
+  grid.longDensity.buffer as ArrayBuffer,
+  grid.shortDensity.buffer as ArrayBuffer,
+  ...(grid.ages ? [grid.ages.buffer as ArrayBuffer] : []),
+];
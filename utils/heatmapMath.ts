@@ -1,82 +1,685 @@
 
-import { Candle, HeatmapSnapshot, LiquidationLevel, HeatmapBucket, HeatmapCalculationResult } from '../types';
+import { Candle, LiquidationLevel, HeatmapGrid, HeatmapTierLayer, HeatmapVenueLayer, HeatmapCalculationResult, HeatmapUpdate, LiquidationEvent, LeverageTier, HeatmapOptions, LiquidationModel, EntryDistribution, EntryPoint, HalfLifeConfig, BucketConfig, GridScale } from '../types';
+import { getMarginBrackets, findMarginBracket, getMaxLeverage } from './marginBrackets';
+import { createHeatmapGrid, appendColumn, appendGrid, truncateColumns, dropColumns, sliceColumns, priceToRow } from './heatmapGrid';
+
+// Default open interest split across leverage tiers (rough retail positioning profile)
+export const DEFAULT_LEVERAGE_DISTRIBUTION: LeverageTier[] = [
+  { leverage: 5, weight: 15 },
+  { leverage: 10, weight: 30 },
+  { leverage: 25, weight: 25 },
+  { leverage: 50, weight: 20 },
+  { leverage: 100, weight: 10 },
+];
 
 /**
- * Calculates historical liquidation heatmaps.
+ * Drops empty/invalid tiers and scales weights so they sum to 1.
+ * A mix without any usable tier falls back to DEFAULT_LEVERAGE_DISTRIBUTION.
  */
-export const calculateHeatmapData = (
-  candles: Candle[], 
-  leverage: number, 
-  bucketSize: number = 20 
-): HeatmapCalculationResult => {
-  
+export const normalizeLeverageDistribution = (tiers: LeverageTier[]): LeverageTier[] => {
+  const valid = tiers.filter(t => t.leverage >= 1 && t.weight > 0);
+  const total = valid.reduce((sum, t) => sum + t.weight, 0);
+  if (total <= 0) return normalizeLeverageDistribution(DEFAULT_LEVERAGE_DISTRIBUTION);
+  return valid.map(t => ({ leverage: t.leverage, weight: t.weight / total }));
+};
+
+// Representative position size used to pick the maintenance margin bracket
+export const DEFAULT_POSITION_NOTIONAL = 10_000;
+// Taker fee paid on entry, deducted from the isolated margin
+export const DEFAULT_TAKER_FEE = 0.0005;
+
+export interface LiquidationContext {
+  symbol: string;
+  positionNotional: number;
+  feeRate: number;
+}
+
+export type LiquidationPriceFormula = (
+  entryPrice: number,
+  leverage: number,
+  side: 'long' | 'short',
+  ctx: LiquidationContext
+) => number;
+
+/**
+ * Textbook approximation: the position is wiped out once the full initial margin is lost.
+ */
+export const naiveLiquidationPrice: LiquidationPriceFormula = (entryPrice, leverage, side) => {
+  return side === 'long'
+    ? entryPrice * (1 - 1.0 / leverage)
+    : entryPrice * (1 + 1.0 / leverage);
+};
+
+/**
+ * Isolated-margin liquidation price as computed by Binance USDT-M futures:
+ *   LP = (WB + cum - side * Q * EP) / (Q * MMR - side * Q)
+ * with wallet balance WB = initial margin minus the entry fee. Expressed relative to the
+ * notional N = Q * EP so that only the bracket (MMR, cum) depends on position size.
+ */
+export const exchangeLiquidationPrice: LiquidationPriceFormula = (entryPrice, leverage, side, ctx) => {
+  const brackets = getMarginBrackets(ctx.symbol);
+  // Tiers above the symbol's maximum cannot be opened; such positions are capped at the maximum
+  const effectiveLeverage = Math.min(leverage, getMaxLeverage(brackets));
+  const bracket = findMarginBracket(brackets, ctx.positionNotional, effectiveLeverage);
+  const notional = Math.min(ctx.positionNotional, bracket.notionalCap);
+  const cumRatio = bracket.cum / notional;
+  const marginRatio = 1.0 / effectiveLeverage - ctx.feeRate;
+
+  const price = side === 'long'
+    ? entryPrice * (1 - marginRatio - cumRatio) / (1 - bracket.maintMarginRatio)
+    : entryPrice * (1 + marginRatio + cumRatio) / (1 + bracket.maintMarginRatio);
+
+  // Margin below maintenance would liquidate on entry; keep the level on the loss side instead
+  const valid = side === 'long' ? price < entryPrice : price > entryPrice;
+  return valid ? price : naiveLiquidationPrice(entryPrice, effectiveLeverage, side, ctx);
+};
+
+export const LIQUIDATION_FORMULAS: Record<LiquidationModel, LiquidationPriceFormula> = {
+  naive: naiveLiquidationPrice,
+  exchange: exchangeLiquidationPrice,
+};
+
+export const DEFAULT_ENTRY_SAMPLES = 7;
+
+/**
+ * Estimates where inside a candle positions were opened.
+ * Range-based modes sample the midpoints of equal slices between low and high.
+ */
+export const getEntryPoints = (
+  candle: Candle,
+  mode: EntryDistribution,
+  samples: number = DEFAULT_ENTRY_SAMPLES
+): EntryPoint[] => {
+  const range = candle.high - candle.low;
+
+  if (mode === 'close' || range <= 0 || samples < 1) {
+    return [{ price: candle.close, weight: 1 }];
+  }
+
+  if (mode === 'ohlc4') {
+    return [
+      { price: candle.open, weight: 0.25 },
+      { price: candle.high, weight: 0.25 },
+      { price: candle.low, weight: 0.25 },
+      { price: candle.close, weight: 0.25 },
+    ];
+  }
+
+  const step = range / samples;
+  const points: EntryPoint[] = [];
+
+  if (mode === 'uniform') {
+    for (let k = 0; k < samples; k++) {
+      points.push({ price: candle.low + (k + 0.5) * step, weight: 1 / samples });
+    }
+    return points;
+  }
+
+  // Triangular: density rises linearly from low to the typical price, then falls to high
+  const peak = (candle.high + candle.low + candle.close) / 3;
+  let totalWeight = 0;
+  for (let k = 0; k < samples; k++) {
+    const price = candle.low + (k + 0.5) * step;
+    const weight = price <= peak
+      ? (peak > candle.low ? (price - candle.low) / (peak - candle.low) : 1)
+      : (candle.high > peak ? (candle.high - price) / (candle.high - peak) : 1);
+    points.push({ price, weight });
+    totalWeight += weight;
+  }
+  for (const p of points) p.weight /= totalWeight;
+  return points;
+};
+
+/**
+ * Share of the candle's volume that was aggressive buying (0..1).
+ * Falls back to a neutral 0.5 when the source does not report taker volume.
+ */
+export const getTakerBuyShare = (candle: Pick<Candle, 'volume' | 'takerBuyVolume'>): number => {
+  if (candle.takerBuyVolume === undefined || !(candle.volume > 0)) return 0.5;
+  return Math.min(1, Math.max(0, candle.takerBuyVolume / candle.volume));
+};
+
+// Levels decayed below this fraction of their original strength are dropped
+const MIN_DECAY_FACTOR = 0.01;
+
+/**
+ * Converts a half-life setting into seconds (0 = no decay).
+ * Without an explicit bar duration, the spacing of the first two candles is used.
+ */
+export const getHalfLifeSeconds = (halfLife: HalfLifeConfig | undefined, candles: Candle[], intervalSeconds?: number): number => {
+  if (!halfLife || halfLife.mode === 'off' || !(halfLife.value > 0)) return 0;
+  if (halfLife.mode === 'hours') return halfLife.value * 3600;
+
+  const barSeconds = intervalSeconds || (candles.length > 1 ? candles[1].time - candles[0].time : 0);
+  return barSeconds > 0 ? halfLife.value * barSeconds : 0;
+};
+
+/**
+ * Decay rate per second (weight = volume * 2^(-age / halfLife)) and the age in seconds past
+ * which a level has decayed below MIN_DECAY_FACTOR. Without decay levels never expire.
+ */
+export const getLevelDecay = (options: HeatmapOptions, candles: Candle[]): { decayRate: number; maxLevelAge: number } => {
+  const halfLifeSeconds = getHalfLifeSeconds(options.halfLife, candles, options.intervalSeconds);
+  const decayRate = halfLifeSeconds > 0 ? Math.LN2 / halfLifeSeconds : 0;
+  return { decayRate, maxLevelAge: decayRate > 0 ? Math.log(1 / MIN_DECAY_FACTOR) / decayRate : Infinity };
+};
+
+// Levels further than this fraction from the close are dropped (irrelevant for the visuals)
+export const MAX_LEVEL_DISTANCE = 0.5;
+
+/**
+ * Returns a function producing the levels opened by one candle: a long and a short level per
+ * entry point and leverage tier. With `options.venues`, each venue of an aggregated candle opens
+ * its own set, from its scaled volume and weighted by its share.
+ */
+export const createLevelFactory = (leverageTiers: LeverageTier[], options: HeatmapOptions = {}) => {
+  const tiers = normalizeLeverageDistribution(leverageTiers);
+  const liquidationPrice = LIQUIDATION_FORMULAS[options.liquidationModel || 'naive'];
+  const liqContext: LiquidationContext = {
+    symbol: options.symbol || '',
+    positionNotional: DEFAULT_POSITION_NOTIONAL,
+    feeRate: DEFAULT_TAKER_FEE
+  };
+  const entryMode = options.entryDistribution || 'close';
+  const entrySamples = options.entrySamples || DEFAULT_ENTRY_SAMPLES;
+  const takerSplit = options.takerSplit ?? false;
+  const venues = options.venues ?? [];
+
+  return (candle: Candle): LiquidationLevel[] => {
+    const levels: LiquidationLevel[] = [];
+    const entries = getEntryPoints(candle, entryMode, entrySamples);
+
+    const addLevels = (source: Pick<Candle, 'volume' | 'takerBuyVolume'>, volumeScale: number, share: number, venue?: number) => {
+      // Log scale volume to dampen massive spikes
+      const intensity = Math.log10(source.volume * volumeScale + 10) * share;
+
+      // Taker buys open longs, taker sells open shorts. Scaled by 2 so a balanced candle
+      // keeps the same per-side intensity as without the split.
+      const buyShare = takerSplit ? getTakerBuyShare(source) : 0.5;
+      const longIntensity = intensity * 2 * buyShare;
+      const shortIntensity = intensity * 2 * (1 - buyShare);
+
+      for (const entry of entries) {
+        for (const tier of tiers) {
+          const longLiq = liquidationPrice(entry.price, tier.leverage, 'long', liqContext);
+          const shortLiq = liquidationPrice(entry.price, tier.leverage, 'short', liqContext);
+          const levelWeight = entry.weight * tier.weight;
+
+          levels.push({
+            price: longLiq,
+            volume: longIntensity * levelWeight,
+            type: 'long',
+            leverage: tier.leverage,
+            creationTime: candle.time,
+            venue
+          });
+
+          levels.push({
+            price: shortLiq,
+            volume: shortIntensity * levelWeight,
+            type: 'short',
+            leverage: tier.leverage,
+            creationTime: candle.time,
+            venue
+          });
+        }
+      }
+    };
+
+    if (venues.length > 0 && candle.venues) {
+      // Venues without a candle at this time open nothing
+      candle.venues.forEach((source, v) => {
+        if (source && venues[v] && venues[v].share > 0) addLevels(source, venues[v].volumeScale, venues[v].share, v);
+      });
+    } else {
+      addLevels(candle, 1, 1);
+    }
+    return levels;
+  };
+};
+
+// Whether the candle's range reached the level's liquidation price
+export const isLevelTriggered = (lvl: LiquidationLevel, candle: Candle): boolean => {
+  return lvl.type === 'long' ? candle.low <= lvl.price : candle.high >= lvl.price;
+};
+
+// Finest allowed bucket as a fraction of price; finer grids blow up the rows stored per column
+const MIN_BUCKET_FRACTION = 0.0005;
+
+export const DEFAULT_BUCKET_CONFIG: BucketConfig = { mode: 'percent', value: 0.25 };
+
+// Rough tick size for symbols without exchange metadata (~5 significant digits)
+export const estimateTickSize = (price: number): number => {
+  return price > 0 ? Math.pow(10, Math.floor(Math.log10(price)) - 4) : 0.01;
+};
+
+/**
+ * Resolves a bucketing mode into grid parameters.
+ * 'percent' uses linear rows sized from the reference (latest) price, 'log' uses rows of constant
+ * percentage width at every price level, 'tick' uses linear rows of a whole number of price ticks.
+ */
+export const getBucketGrid = (
+  config: BucketConfig,
+  referencePrice: number,
+  tickSize?: number
+): { bucketSize: number; scale: GridScale } => {
+  const minSize = referencePrice * MIN_BUCKET_FRACTION;
+
+  if (config.mode === 'log') {
+    const fraction = Math.max(config.value / 100, MIN_BUCKET_FRACTION);
+    return { bucketSize: Math.log(1 + fraction), scale: 'log' };
+  }
+
+  if (config.mode === 'tick') {
+    const tick = tickSize && tickSize > 0 ? tickSize : estimateTickSize(referencePrice);
+    const ticks = Math.max(1, Math.round(config.value), Math.ceil(minSize / tick));
+    return { bucketSize: tick * ticks, scale: 'linear' };
+  }
+
+  return { bucketSize: Math.max(referencePrice * config.value / 100, minSize), scale: 'linear' };
+};
+
+/**
+ * Reusable per-candle buffers for building one grid column. Rows are registered first to size
+ * the column, then weights are added, then the column is appended to a grid.
+ */
+const createColumnBuilder = () => {
+  let longValues = new Float64Array(1024);
+  let shortValues = new Float64Array(1024);
+  // Weight * age sums, turned into mean ages when appended to a grid that tracks them
+  let ageValues = new Float64Array(1024);
+  let minRow = Infinity;
+  let maxRow = -Infinity;
+  let rowCount = 0;
+
+  const begin = () => {
+    minRow = Infinity;
+    maxRow = -Infinity;
+  };
+
+  const include = (row: number) => {
+    if (row < minRow) minRow = row;
+    if (row > maxRow) maxRow = row;
+  };
+
+  const allocate = () => {
+    rowCount = maxRow >= minRow ? maxRow - minRow + 1 : 0;
+    if (rowCount > longValues.length) {
+      const capacity = Math.max(rowCount, longValues.length * 2);
+      longValues = new Float64Array(capacity);
+      shortValues = new Float64Array(capacity);
+      ageValues = new Float64Array(capacity);
+    }
+    longValues.fill(0, 0, rowCount);
+    shortValues.fill(0, 0, rowCount);
+    ageValues.fill(0, 0, rowCount);
+  };
+
+  const add = (row: number, side: LiquidationLevel['type'], weight: number, age: number = 0) => {
+    if (side === 'long') longValues[row - minRow] += weight;
+    else shortValues[row - minRow] += weight;
+    ageValues[row - minRow] += weight * age;
+  };
+
+  // Appends the column and returns its largest single-side cell density
+  const appendTo = (grid: HeatmapGrid, time: number): number => {
+    // Sides are drawn with separate ramps, so they are normalized per cell and side
+    let maxDensity = 0;
+    for (let k = 0; k < rowCount; k++) {
+      if (longValues[k] > maxDensity) maxDensity = longValues[k];
+      if (shortValues[k] > maxDensity) maxDensity = shortValues[k];
+    }
+    if (grid.ages) {
+      for (let k = 0; k < rowCount; k++) {
+        const total = longValues[k] + shortValues[k];
+        ageValues[k] = total > 0 ? ageValues[k] / total : 0;
+      }
+    }
+    appendColumn(grid, time, rowCount > 0 ? minRow : 0, longValues, shortValues, rowCount, ageValues);
+    return maxDensity;
+  };
+
+  return { begin, include, allocate, add, appendTo };
+};
+
+export interface HeatmapEngine {
+  /**
+   * Feeds the full, time-sorted candle array. Only candles after the last committed one are
+   * processed; the final candle is treated as still forming and is recomputed on every call.
+   */
+  update: (candles: Candle[]) => HeatmapUpdate;
+  /**
+   * Same as update, but yields the fraction of new candles processed every `stepSize` candles
+   * so a caller can report progress or stop between steps.
+   */
+  updateInSteps: (candles: Candle[], stepSize?: number) => Generator<number, HeatmapUpdate, void>;
+  getResult: () => HeatmapCalculationResult;
+  reset: () => void;
+}
+
+/**
+ * Creates a stateful, resumable heatmap calculator.
+ * Active levels and the running maximum survive between updates, so a refresh that only adds
+ * or revises the newest candles costs a few steps instead of a full pass over the history.
+ */
+export const createHeatmapEngine = (
+  leverageTiers: LeverageTier[], 
+  bucketSize: number = 20,
+  options: HeatmapOptions = {}
+): HeatmapEngine => {
+
+  const tiers = normalizeLeverageDistribution(leverageTiers);
+  const createLevels = createLevelFactory(leverageTiers, options);
+  const bucketScale = options.bucketScale || 'linear';
+  // Optional per-tier grids, in the same order as `tiers`
+  const tierLayers = options.tierLayers ?? false;
+  const levelAges = options.levelAges ?? false;
+  const tierIndex = new Map(tiers.map((tier, i) => [tier.leverage, i]));
+  // Optional per-venue grids, in the same order as `options.venues`
+  const venues = options.venues ?? [];
+
+  // Decay settings are resolved on the first update (bar duration may be inferred from candles)
+  let decayRate = 0;
+  let maxLevelAge = Infinity;
+  let decayResolved = false;
+
+  // Committed state: everything up to (but excluding) the forming candle
   let activeLevels: LiquidationLevel[] = [];
-  const snapshots: HeatmapSnapshot[] = [];
-  let globalMaxDensity = 0;
+  let grid = createHeatmapGrid(bucketSize, bucketScale, undefined, undefined, levelAges);
+  let tierGrids: HeatmapGrid[] = [];
+  let venueGrids: HeatmapGrid[] = [];
+  let liquidations: LiquidationEvent[] = [];
+  let committedMaxDensity = 0;
+  let tierCommittedMax: number[] = [];
+  let venueCommittedMax: number[] = [];
+  let committedCount = 0;
+  let firstTime: number | null = null;
+  let lastCommittedTime: number | null = null;
+
+  // Provisional result for the forming candle
+  let provisionalMaxDensity = 0;
+  let tierProvisionalMax: number[] = [];
+  let venueProvisionalMax: number[] = [];
 
-  // Optimization: Pre-allocate roughly to avoid resizing if possible, though JS engine handles this well.
-  
-  for (let i = 0; i < candles.length; i++) {
-    const candle = candles[i];
+  const columnBuilder = createColumnBuilder();
+  const tierColumnBuilders = tierLayers ? tiers.map(() => createColumnBuilder()) : [];
+  const venueColumnBuilders = venues.map(() => createColumnBuilder());
+
+  const decayedVolume = (lvl: LiquidationLevel, time: number) => {
+    return decayRate > 0 ? lvl.volume * Math.exp(-decayRate * (time - lvl.creationTime)) : lvl.volume;
+  };
+
+  const resolveDecay = (candles: Candle[]) => {
+    ({ decayRate, maxLevelAge } = getLevelDecay(options, candles));
+    decayResolved = true;
+  };
+
+  /**
+   * Advances a level set by one candle and appends the resulting column to the grid(s).
+   */
+  const processCandle = (levels: LiquidationLevel[], candle: Candle) => {
     const currentPrice = candle.close;
     
     // 1. Purge triggered liquidations and "stale/far" levels to optimize performance
     // If a level is > 50% away from current price, it's irrelevant for the heatmap visuals usually
-    activeLevels = activeLevels.filter(lvl => {
+    // Triggered levels are recorded as swept liquidation volume for this candle
+    let longSwept = 0;
+    let shortSwept = 0;
+
+    const nextLevels = levels.filter(lvl => {
       // Trigger check
-      if (lvl.type === 'long' && candle.low <= lvl.price) return false;
-      if (lvl.type === 'short' && candle.high >= lvl.price) return false;
+      if (isLevelTriggered(lvl, candle)) {
+        if (lvl.type === 'long') longSwept += decayedVolume(lvl, candle.time);
+        else shortSwept += decayedVolume(lvl, candle.time);
+        return false;
+      }
       
       // Distance check (Optimization)
       const dist = Math.abs(lvl.price - currentPrice) / currentPrice;
-      if (dist > 0.5) return false; 
+      if (dist > MAX_LEVEL_DISTANCE) return false; 
+
+      // Decay check: positions this old have mostly been closed voluntarily
+      if (candle.time - lvl.creationTime > maxLevelAge) return false;
 
       return true;
     });
 
+    const event: LiquidationEvent = {
+      time: candle.time,
+      longVolume: longSwept,
+      shortVolume: shortSwept
+    };
+
     // 2. Add NEW positions
-    const entryPrice = candle.close;
-    // Log scale volume to dampen massive spikes
-    const intensity = Math.log10(candle.volume + 10); 
-
-    const longLiq = entryPrice * (1 - 1.0 / leverage);
-    const shortLiq = entryPrice * (1 + 1.0 / leverage);
-
-    activeLevels.push({
-      price: longLiq,
-      volume: intensity,
-      type: 'long',
-      creationTime: candle.time
-    });
+    for (const lvl of createLevels(candle)) nextLevels.push(lvl);
 
-    activeLevels.push({
-      price: shortLiq,
-      volume: intensity,
-      type: 'short',
-      creationTime: candle.time
-    });
+    // 3. Create columns over the row range spanned by the levels (blended, plus one per tier / venue if enabled)
+    // (levels without a row, e.g. at a non-positive price on a log grid, are left out)
+    columnBuilder.begin();
+    tierColumnBuilders.forEach(builder => builder.begin());
+    venueColumnBuilders.forEach(builder => builder.begin());
+    for (const lvl of nextLevels) {
+      const row = priceToRow(grid, lvl.price);
+      if (!isFinite(row)) continue;
+      columnBuilder.include(row);
+      if (tierLayers) tierColumnBuilders[tierIndex.get(lvl.leverage)!].include(row);
+      if (lvl.venue !== undefined) venueColumnBuilders[lvl.venue].include(row);
+    }
+
+    columnBuilder.allocate();
+    tierColumnBuilders.forEach(builder => builder.allocate());
+    venueColumnBuilders.forEach(builder => builder.allocate());
+    for (const lvl of nextLevels) {
+      const row = priceToRow(grid, lvl.price);
+      if (!isFinite(row)) continue;
+      const weight = decayedVolume(lvl, candle.time);
+      columnBuilder.add(row, lvl.type, weight, candle.time - lvl.creationTime);
+      if (tierLayers) tierColumnBuilders[tierIndex.get(lvl.leverage)!].add(row, lvl.type, weight);
+      if (lvl.venue !== undefined) venueColumnBuilders[lvl.venue].add(row, lvl.type, weight);
+    }
+
+    const maxDensity = columnBuilder.appendTo(grid, candle.time);
+    const tierMaxDensity = tierColumnBuilders.map((builder, i) => builder.appendTo(tierGrids[i], candle.time));
+    const venueMaxDensity = venueColumnBuilders.map((builder, i) => builder.appendTo(venueGrids[i], candle.time));
+
+    return { levels: nextLevels, event, maxDensity, tierMaxDensity, venueMaxDensity };
+  };
+
+  const reset = () => {
+    activeLevels = [];
+    grid = createHeatmapGrid(bucketSize, bucketScale, undefined, undefined, levelAges);
+    tierGrids = tierColumnBuilders.map(() => createHeatmapGrid(bucketSize, bucketScale));
+    venueGrids = venueColumnBuilders.map(() => createHeatmapGrid(bucketSize, bucketScale));
+    liquidations = [];
+    committedMaxDensity = 0;
+    provisionalMaxDensity = 0;
+    tierCommittedMax = tierColumnBuilders.map(() => 0);
+    tierProvisionalMax = tierColumnBuilders.map(() => 0);
+    venueCommittedMax = venueColumnBuilders.map(() => 0);
+    venueProvisionalMax = venueColumnBuilders.map(() => 0);
+    committedCount = 0;
+    firstTime = null;
+    lastCommittedTime = null;
+  };
+
+  // Per-tier layers, built from the given grids (whole grids or just the changed columns)
+  const getTierLayers = (grids: HeatmapGrid[]): HeatmapTierLayer[] => {
+    return grids.map((tierGrid, i) => ({
+      leverage: tiers[i].leverage,
+      grid: tierGrid,
+      maxDensity: Math.max(tierCommittedMax[i], tierProvisionalMax[i])
+    }));
+  };
+
+  // Per-venue layers, likewise
+  const getVenueLayers = (grids: HeatmapGrid[]): HeatmapVenueLayer[] => {
+    return grids.map((venueGrid, i) => ({
+      exchange: venues[i].exchange,
+      grid: venueGrid,
+      maxDensity: Math.max(venueCommittedMax[i], venueProvisionalMax[i])
+    }));
+  };
+
+  const getResult = (): HeatmapCalculationResult => ({
+    grid,
+    tierLayers: getTierLayers(tierGrids),
+    venueLayers: getVenueLayers(venueGrids),
+    liquidations,
+    globalMaxDensity: Math.max(committedMaxDensity, provisionalMaxDensity)
+  });
 
-    // 3. Create snapshot
-    const bucketMap = new Map<number, number>();
+  const updateInSteps = function* (candles: Candle[], stepSize: number = Infinity): Generator<number, HeatmapUpdate, void> {
+    if (!decayResolved) resolveDecay(candles);
 
-    for(const lvl of activeLevels) {
-      // Round to nearest bucketSize
-      const bucketPrice = Math.floor(lvl.price / bucketSize) * bucketSize;
-      const currentVal = bucketMap.get(bucketPrice) || 0;
-      bucketMap.set(bucketPrice, currentVal + lvl.volume);
+    let isReset = false;
+    let dropCount = 0;
+    let resumeIndex = 0;
+
+    if (candles.length === 0) {
+      isReset = committedCount > 0 || grid.length > 0;
+      reset();
+    } else if (committedCount > 0 && firstTime !== null && lastCommittedTime !== null) {
+      // Locate the last committed candle in the new array (times are sorted)
+      const anchor = findTimeIndex(candles, lastCommittedTime);
+
+      if (anchor === -1 || anchor > committedCount - 1 || candles[0].time < firstTime) {
+        // History was replaced or extended backwards: start over
+        reset();
+        isReset = true;
+      } else {
+        // The window may have slid forward; drop columns that fell off the front
+        dropCount = committedCount - 1 - anchor;
+        if (dropCount > 0) {
+          dropColumns(grid, dropCount);
+          tierGrids.forEach(tierGrid => dropColumns(tierGrid, dropCount));
+          venueGrids.forEach(venueGrid => dropColumns(venueGrid, dropCount));
+          liquidations = liquidations.slice(dropCount);
+          committedCount -= dropCount;
+        }
+        // Discard the previous provisional column
+        truncateColumns(grid, committedCount);
+        tierGrids.forEach(tierGrid => truncateColumns(tierGrid, committedCount));
+        venueGrids.forEach(venueGrid => truncateColumns(venueGrid, committedCount));
+        liquidations.length = committedCount;
+        firstTime = candles[0].time;
+        resumeIndex = committedCount;
+      }
+    } else {
+      reset();
+      isReset = true;
     }
 
-    const buckets: HeatmapBucket[] = [];
-    bucketMap.forEach((density, price) => {
-      if (density > globalMaxDensity) globalMaxDensity = density;
-      buckets.push({ price, density });
-    });
+    const fromIndex = resumeIndex;
 
-    snapshots.push({
-      time: candle.time,
-      buckets: buckets
-    });
+    if (candles.length > 0) {
+      if (firstTime === null) firstTime = candles[0].time;
+
+      // Commit closed candles (all but the last)
+      const total = candles.length - resumeIndex;
+      for (let i = resumeIndex; i < candles.length - 1; i++) {
+        if (i > resumeIndex && (i - resumeIndex) % stepSize === 0) {
+          yield (i - resumeIndex) / total;
+        }
+
+        const step = processCandle(activeLevels, candles[i]);
+        activeLevels = step.levels;
+        liquidations.push(step.event);
+        if (step.maxDensity > committedMaxDensity) committedMaxDensity = step.maxDensity;
+        step.tierMaxDensity.forEach((max, t) => {
+          if (max > tierCommittedMax[t]) tierCommittedMax[t] = max;
+        });
+        step.venueMaxDensity.forEach((max, v) => {
+          if (max > venueCommittedMax[v]) venueCommittedMax[v] = max;
+        });
+        committedCount = i + 1;
+        lastCommittedTime = candles[i].time;
+      }
+
+      // Forming candle is computed against the committed levels without mutating them
+      const forming = processCandle(activeLevels, candles[candles.length - 1]);
+      liquidations.push(forming.event);
+      provisionalMaxDensity = forming.maxDensity;
+      tierProvisionalMax = forming.tierMaxDensity;
+      venueProvisionalMax = forming.venueMaxDensity;
+    }
+
+    return {
+      reset: isReset,
+      dropCount: isReset ? 0 : dropCount,
+      fromIndex,
+      grid: sliceColumns(grid, fromIndex),
+      tierLayers: getTierLayers(tierGrids.map(tierGrid => sliceColumns(tierGrid, fromIndex))),
+      venueLayers: getVenueLayers(venueGrids.map(venueGrid => sliceColumns(venueGrid, fromIndex))),
+      liquidations: liquidations.slice(fromIndex),
+      globalMaxDensity: Math.max(committedMaxDensity, provisionalMaxDensity)
+    };
+  };
+
+  const update = (candles: Candle[]): HeatmapUpdate => {
+    const steps = updateInSteps(candles);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+  };
+
+  return { update, updateInSteps, getResult, reset };
+};
+
+// Binary search for an exact candle time, -1 if absent
+const findTimeIndex = (candles: Candle[], time: number): number => {
+  let lo = 0;
+  let hi = candles.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const t = candles[mid].time;
+    if (t === time) return mid;
+    if (t < time) lo = mid + 1;
+    else hi = mid - 1;
   }
+  return -1;
+};
 
-  return { snapshots, globalMaxDensity };
+/**
+ * Applies an engine update to a previously held result, returning a new result object.
+ * The previous grid's buffers are reused (mutated in place); the returned grid is a new header over them.
+ */
+export const applyHeatmapUpdate = (prev: HeatmapCalculationResult, update: HeatmapUpdate): HeatmapCalculationResult => {
+  if (update.reset) {
+    return {
+      grid: update.grid,
+      tierLayers: update.tierLayers,
+      venueLayers: update.venueLayers,
+      liquidations: update.liquidations,
+      globalMaxDensity: update.globalMaxDensity
+    };
+  }
+  const keep = update.fromIndex;
+  const patchGrid = (grid: HeatmapGrid, patch: HeatmapGrid): HeatmapGrid => {
+    dropColumns(grid, update.dropCount);
+    truncateColumns(grid, keep);
+    appendGrid(grid, patch);
+    return { ...grid };
+  };
+  return {
+    grid: patchGrid(prev.grid, update.grid),
+    tierLayers: update.tierLayers.map((layer, i) => ({ ...layer, grid: patchGrid(prev.tierLayers[i].grid, layer.grid) })),
+    venueLayers: update.venueLayers.map((layer, i) => ({ ...layer, grid: patchGrid(prev.venueLayers[i].grid, layer.grid) })),
+    liquidations: prev.liquidations.slice(update.dropCount, update.dropCount + keep).concat(update.liquidations),
+    globalMaxDensity: update.globalMaxDensity
+  };
+};
+
+/**
+ * Calculates historical liquidation heatmaps.
+ * Each candle's intensity is spread across its entry prices and the leverage tiers according to their weight.
+ */
+export const calculateHeatmapData = (
+  candles: Candle[], 
+  leverageTiers: LeverageTier[], 
+  bucketSize: number = 20,
+  options: HeatmapOptions = {}
+): HeatmapCalculationResult => {
+  const engine = createHeatmapEngine(leverageTiers, bucketSize, options);
+  engine.update(candles);
+  return engine.getResult();
 };
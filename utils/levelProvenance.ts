@@ -0,0 +1,82 @@
+import { Candle, HeatmapGrid, HeatmapOptions, LeverageTier, LiquidationLevel, CellProvenance, LevelContribution } from '../types';
+import { createLevelFactory, getLevelDecay, isLevelTriggered, MAX_LEVEL_DISTANCE } from './heatmapMath';
+import { priceToRow, rowToPrice } from './heatmapGrid';
+
+/**
+ * Replays the level lifecycle of the heatmap engine up to the candle of `column`, keeping only
+ * levels that land in `row`, and groups the survivors by origin candle, side and leverage.
+ * Must be called with the tiers and options the grid was computed with, and with every candle the
+ * engine processed (including those that slid out of the grid's window since).
+ */
+export const traceCellProvenance = (
+  grid: HeatmapGrid,
+  candles: Candle[],
+  leverageTiers: LeverageTier[],
+  options: HeatmapOptions,
+  column: number,
+  row: number
+): CellProvenance | null => {
+  if (column < 0 || column >= grid.length) return null;
+  const time = grid.times[column];
+  const target = candles.findIndex(c => c.time === time);
+  if (target === -1) return null;
+
+  const createLevels = createLevelFactory(leverageTiers, options);
+  const { decayRate, maxLevelAge } = getLevelDecay(options, candles);
+
+  // A candle that traded through the whole row triggered every level in it, so the replay starts
+  // there (half a row of margin keeps rounding at the row edges out of it)
+  const bandLow = rowToPrice(grid, row - 0.5);
+  const bandHigh = rowToPrice(grid, row + 1.5);
+  let first = target;
+  while (first > 0 && !(candles[first].low <= bandLow && candles[first].high >= bandHigh)) first--;
+
+  // Levels older than maxLevelAge at the target time cannot contribute
+  if (isFinite(maxLevelAge)) {
+    while (first < target && time - candles[first].time > maxLevelAge) first++;
+  }
+
+  let levels: LiquidationLevel[] = [];
+  for (let i = first; i <= target; i++) {
+    const candle = candles[i];
+    levels = levels.filter(lvl => {
+      if (isLevelTriggered(lvl, candle)) return false;
+      if (Math.abs(lvl.price - candle.close) / candle.close > MAX_LEVEL_DISTANCE) return false;
+      return candle.time - lvl.creationTime <= maxLevelAge;
+    });
+    for (const lvl of createLevels(candle)) {
+      if (priceToRow(grid, lvl.price) === row) levels.push(lvl);
+    }
+  }
+
+  const indexByTime = new Map<number, number>();
+  for (let i = first; i <= target; i++) indexByTime.set(candles[i].time, i);
+
+  const groups = new Map<string, LevelContribution>();
+  let total = 0;
+  for (const lvl of levels) {
+    const weight = decayRate > 0 ? lvl.volume * Math.exp(-decayRate * (time - lvl.creationTime)) : lvl.volume;
+    total += weight;
+    const key = `${lvl.creationTime}|${lvl.type}|${lvl.leverage}`;
+    const group = groups.get(key);
+    if (group) {
+      group.weight += weight;
+    } else {
+      groups.set(key, {
+        time: lvl.creationTime,
+        side: lvl.type,
+        leverage: lvl.leverage,
+        weight,
+        age: target - (indexByTime.get(lvl.creationTime) ?? target)
+      });
+    }
+  }
+
+  return {
+    time,
+    priceLow: rowToPrice(grid, row),
+    priceHigh: rowToPrice(grid, row + 1),
+    total,
+    contributions: [...groups.values()].sort((a, b) => b.weight - a.weight)
+  };
+};
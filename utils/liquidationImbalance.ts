@@ -0,0 +1,42 @@
+import { Candle, HeatmapGrid, ImbalanceConfig, ImbalancePoint } from '../types';
+import { priceToRow } from './heatmapGrid';
+
+export const DEFAULT_IMBALANCE_CONFIG: ImbalanceConfig = { mode: 'ratio', window: 5 };
+
+/**
+ * Per bar, sums long density within `window`% below the close and short density within
+ * `window`% above it. The bucket holding the close counts for both sides.
+ * Columns without a candle at the same time are skipped.
+ */
+export const computeImbalanceSeries = (grid: HeatmapGrid, candles: Candle[], config: ImbalanceConfig): ImbalancePoint[] => {
+  const closes = new Map<number, number>();
+  candles.forEach(c => closes.set(c.time, c.close));
+
+  const fraction = config.window / 100;
+  const points: ImbalancePoint[] = [];
+
+  for (let column = 0; column < grid.length; column++) {
+    const time = grid.times[column];
+    const close = closes.get(time);
+    if (close === undefined) continue;
+
+    const start = grid.rowStart[column];
+    const end = grid.rowEnd[column];
+    const offset = grid.offsets[column] - start;
+    const closeRow = priceToRow(grid, close);
+    const lowRow = Math.max(start, priceToRow(grid, close * (1 - fraction)));
+    const highRow = Math.min(end - 1, priceToRow(grid, close * (1 + fraction)));
+
+    let longDensity = 0;
+    for (let row = lowRow; row <= Math.min(closeRow, end - 1); row++) longDensity += grid.longDensity[offset + row];
+    let shortDensity = 0;
+    for (let row = Math.max(closeRow, start); row <= highRow; row++) shortDensity += grid.shortDensity[offset + row];
+
+    const total = longDensity + shortDensity;
+    const value = config.mode === 'ratio'
+      ? (total > 0 ? (shortDensity - longDensity) / total : 0)
+      : shortDensity - longDensity;
+    points.push({ time, value, longDensity, shortDensity });
+  }
+  return points;
+};
@@ -0,0 +1,99 @@
+import { MarginBracket } from '../types';
+
+// Compact bracket definition: [notionalFloor, notionalCap, maintMarginRatio, maxLeverage]
+type BracketRow = [number, number, number, number];
+
+/**
+ * Expands compact rows into full brackets, deriving the maintenance amount ("cum")
+ * the same way the exchange does: cum_n = cum_(n-1) + floor_n * (mmr_n - mmr_(n-1)).
+ */
+const buildBrackets = (rows: BracketRow[]): MarginBracket[] => {
+  const brackets: MarginBracket[] = [];
+  let cum = 0;
+  let prevMmr = 0;
+  for (const [notionalFloor, notionalCap, maintMarginRatio, maxLeverage] of rows) {
+    cum += notionalFloor * (maintMarginRatio - prevMmr);
+    prevMmr = maintMarginRatio;
+    brackets.push({ notionalFloor, notionalCap, maintMarginRatio, maxLeverage, cum });
+  }
+  return brackets;
+};
+
+const MAJOR_BRACKETS = buildBrackets([
+  [0, 50_000, 0.004, 125],
+  [50_000, 500_000, 0.005, 100],
+  [500_000, 8_000_000, 0.01, 50],
+  [8_000_000, 50_000_000, 0.025, 20],
+  [50_000_000, 80_000_000, 0.05, 10],
+  [80_000_000, 100_000_000, 0.1, 5],
+  [100_000_000, 200_000_000, 0.125, 4],
+  [200_000_000, 300_000_000, 0.15, 3],
+  [300_000_000, 500_000_000, 0.25, 2],
+  [500_000_000, Infinity, 0.5, 1],
+]);
+
+const LARGE_CAP_BRACKETS = buildBrackets([
+  [0, 10_000, 0.005, 75],
+  [10_000, 50_000, 0.0065, 50],
+  [50_000, 200_000, 0.01, 40],
+  [200_000, 1_000_000, 0.02, 25],
+  [1_000_000, 5_000_000, 0.05, 10],
+  [5_000_000, 10_000_000, 0.1, 5],
+  [10_000_000, 15_000_000, 0.125, 4],
+  [15_000_000, 25_000_000, 0.15, 3],
+  [25_000_000, 50_000_000, 0.25, 2],
+  [50_000_000, Infinity, 0.5, 1],
+]);
+
+const DEFAULT_BRACKETS = buildBrackets([
+  [0, 5_000, 0.01, 50],
+  [5_000, 50_000, 0.015, 25],
+  [50_000, 250_000, 0.02, 20],
+  [250_000, 1_000_000, 0.05, 10],
+  [1_000_000, 2_000_000, 0.1, 5],
+  [2_000_000, 5_000_000, 0.125, 4],
+  [5_000_000, 10_000_000, 0.15, 3],
+  [10_000_000, 20_000_000, 0.25, 2],
+  [20_000_000, Infinity, 0.5, 1],
+]);
+
+// Bundled snapshot of USDT-M perpetual brackets so the exchange model works offline
+const BUNDLED_BRACKETS: { [symbol: string]: MarginBracket[] } = {
+  BTCUSDT: MAJOR_BRACKETS,
+  ETHUSDT: MAJOR_BRACKETS,
+  SOLUSDT: LARGE_CAP_BRACKETS,
+  BNBUSDT: LARGE_CAP_BRACKETS,
+  XRPUSDT: LARGE_CAP_BRACKETS,
+  DOGEUSDT: LARGE_CAP_BRACKETS,
+  ADAUSDT: LARGE_CAP_BRACKETS,
+  AVAXUSDT: LARGE_CAP_BRACKETS,
+  LINKUSDT: LARGE_CAP_BRACKETS,
+  LTCUSDT: LARGE_CAP_BRACKETS,
+  DOTUSDT: LARGE_CAP_BRACKETS,
+  TRXUSDT: LARGE_CAP_BRACKETS,
+};
+
+export const getMarginBrackets = (symbol: string): MarginBracket[] => {
+  return BUNDLED_BRACKETS[symbol.toUpperCase()] || DEFAULT_BRACKETS;
+};
+
+// Highest leverage any position size may use (the smallest bracket's)
+export const getMaxLeverage = (brackets: MarginBracket[]): number => {
+  return brackets.reduce((max, b) => Math.max(max, b.maxLeverage), 0);
+};
+
+/**
+ * Finds the bracket a position of the given notional falls into.
+ * If the requested leverage is not allowed at that size, steps down to the
+ * largest bracket that still permits it (the position would have to be smaller).
+ * Leverage above getMaxLeverage fits no bracket; callers clamp it first.
+ */
+export const findMarginBracket = (brackets: MarginBracket[], notional: number, leverage: number): MarginBracket => {
+  let index = brackets.findIndex(b => notional >= b.notionalFloor && notional < b.notionalCap);
+  if (index === -1) index = brackets.length - 1;
+
+  while (index > 0 && brackets[index].maxLeverage < leverage) {
+    index--;
+  }
+  return brackets[index];
+};
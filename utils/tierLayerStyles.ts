@@ -0,0 +1,23 @@
+import { TierLayerStyle, TierLayerStyles } from '../types';
+
+// Distinct hues for the usual tiers; anything else falls back to the palette by order
+const TIER_COLORS: { [leverage: number]: string } = {
+  5: '#a855f7',
+  10: '#3b82f6',
+  20: '#06b6d4',
+  25: '#22c55e',
+  50: '#eab308',
+  75: '#f97316',
+  100: '#ef4444',
+  125: '#ec4899',
+};
+
+const FALLBACK_COLORS = ['#8b5cf6', '#14b8a6', '#84cc16', '#f59e0b', '#f43f5e'];
+
+export const getTierLayerStyle = (styles: TierLayerStyles, leverage: number, index: number = 0): TierLayerStyle => {
+  return styles[leverage] || {
+    visible: true,
+    opacity: 0.8,
+    color: TIER_COLORS[leverage] || FALLBACK_COLORS[index % FALLBACK_COLORS.length],
+  };
+};
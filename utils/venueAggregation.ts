@@ -0,0 +1,47 @@
+import { Candle, VenueShare } from '../types';
+
+// Default shares, roughly following the venues' perpetual volume
+export const DEFAULT_VENUE_MIX: VenueShare[] = [
+  { exchange: 'binance', weight: 50 },
+  { exchange: 'bybit', weight: 30 },
+  { exchange: 'okx', weight: 20 },
+];
+
+/**
+ * Combines per-venue histories into aggregated candles on the times of `base` (the history the
+ * chart shows, so heatmap columns stay aligned with it). Prices come from `base`; `venues[i]`
+ * holds the volume of `series[i]` at the same open time, or null where that venue has no candle.
+ */
+export const buildAggregateCandles = (base: Candle[], series: Candle[][]): Candle[] => {
+  const cursors = series.map(() => 0);
+  return base.map(candle => {
+    const venues = series.map((s, v) => {
+      let j = cursors[v];
+      while (j < s.length && s[j].time < candle.time) j++;
+      cursors[v] = j;
+      const match = s[j];
+      return match && match.time === candle.time ? { volume: match.volume, takerBuyVolume: match.takerBuyVolume } : null;
+    });
+    return { ...candle, venues };
+  });
+};
+
+/**
+ * Per-venue volume multipliers that bring every venue's mean candle volume to the combined mean
+ * volume of all venues, so a venue's weight in the aggregate is set by its share, not its size.
+ * 0 for venues without any volume.
+ */
+export const getVenueVolumeScales = (candles: Candle[], venueCount: number): number[] => {
+  const sums = new Array(venueCount).fill(0);
+  const counts = new Array(venueCount).fill(0);
+  for (const candle of candles) {
+    candle.venues?.forEach((venue, v) => {
+      if (!venue || !(venue.volume > 0) || v >= venueCount) return;
+      sums[v] += venue.volume;
+      counts[v]++;
+    });
+  }
+  const means = sums.map((sum, v) => counts[v] > 0 ? sum / counts[v] : 0);
+  const total = means.reduce((a, b) => a + b, 0);
+  return means.map(mean => mean > 0 ? total / mean : 0);
+};
@@ -0,0 +1,144 @@
+import { Candle, HeatmapOptions, HeatmapWorkerRequest, HeatmapWorkerResponse, LeverageTier } from '../types';
+import { getMarketDataProvider } from '../services/exchanges';
+import { fetchCandlesCached } from '../services/candleCache';
+import { createHeatmapEngine, HeatmapEngine } from '../utils/heatmapMath';
+import { packCandles, unpackCandles, getCandleTransferables } from '../utils/candleColumns';
+import { getGridTransferables, priceToRow } from '../utils/heatmapGrid';
+import { traceCellProvenance } from '../utils/levelProvenance';
+
+// Candles processed between yields; small enough to keep cancellation and progress responsive
+const STEP_SIZE = 2000;
+
+const ctx = self as unknown as Worker;
+
+let engine: HeatmapEngine | null = null;
+let engineKey = '';
+// History the engine was last updated with; compute requests may send only what follows part of it
+let engineCandles: Candle[] = [];
+// Every candle the engine processed, as it saw them; levels opened before the window slid stay active
+let engineHistory: Candle[] = [];
+// Tiers and options the engine was created with (replayed for provenance)
+let engineParams: { leverageTiers: LeverageTier[]; options: HeatmapOptions } | null = null;
+
+const cancelledJobs = new Set<number>();
+// Jobs run one at a time; the engine must never be advanced by two jobs concurrently
+let queue: Promise<void> = Promise.resolve();
+
+const post = (msg: HeatmapWorkerResponse, transfer: Transferable[] = []) => {
+    ctx.postMessage(msg, transfer);
+};
+
+const yieldToMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const runLoad = async (req: Extract<HeatmapWorkerRequest, { type: 'load' }>) => {
+    // Full loads go through the IndexedDB cache; forward top-ups are small and go straight to the API
+    const provider = getMarketDataProvider(req.exchange);
+    const candles = req.startTime === undefined
+        ? await fetchCandlesCached(provider, req.symbol, req.interval, req.limit)
+        : packCandles(await provider.fetchCandlesSince(req.symbol, req.interval, req.startTime, req.limit));
+    if (cancelledJobs.has(req.jobId)) {
+        post({ type: 'cancelled', jobId: req.jobId });
+        return;
+    }
+    post({ type: 'candles', jobId: req.jobId, candles }, getCandleTransferables(candles));
+};
+
+// The engine keeps its committed candles and resumes after the last one (see HeatmapEngine.update)
+const extendHistory = (history: Candle[], candles: Candle[]): Candle[] => {
+    if (history.length < 2) return candles;
+    const committed = history.slice(0, -1);
+    const lastCommitted = committed[committed.length - 1].time;
+    return committed.concat(candles.filter(c => c.time > lastCommitted));
+};
+
+const runCompute = async (req: Extract<HeatmapWorkerRequest, { type: 'compute' }>) => {
+    if (cancelledJobs.has(req.jobId)) {
+        post({ type: 'cancelled', jobId: req.jobId });
+        return;
+    }
+
+    let candles = unpackCandles(req.candles);
+    if (req.reuse) {
+        if (!engine || engineKey !== req.engineKey) throw new Error('Heatmap engine has no history to extend');
+        candles = engineCandles.slice(req.reuse.drop, req.reuse.drop + req.reuse.keep).concat(candles);
+    }
+
+    if (!engine || engineKey !== req.engineKey) {
+        engine = createHeatmapEngine(req.leverageTiers, req.bucketSize, req.options);
+        engineKey = req.engineKey;
+        engineParams = { leverageTiers: req.leverageTiers, options: req.options };
+    }
+
+    const steps = engine.updateInSteps(candles, STEP_SIZE);
+
+    for (;;) {
+        const step = steps.next();
+        if (step.done) {
+            const update = step.value;
+            engineCandles = candles;
+            engineHistory = update.reset ? candles : extendHistory(engineHistory, candles);
+            const transfer = [update.grid, ...update.tierLayers.map(layer => layer.grid), ...update.venueLayers.map(layer => layer.grid)].flatMap(getGridTransferables);
+            post({ type: 'heatmap', jobId: req.jobId, update }, transfer);
+            return;
+        }
+
+        post({ type: 'progress', jobId: req.jobId, progress: step.value as number });
+        await yieldToMessages();
+
+        if (cancelledJobs.has(req.jobId)) {
+            // A half-applied update cannot be reconciled with the caller's copy; start fresh next time
+            engine = null;
+            engineCandles = [];
+            engineHistory = [];
+            post({ type: 'cancelled', jobId: req.jobId });
+            return;
+        }
+    }
+};
+
+// Replays the history off the main thread; without decay that reaches back to the first candle
+const runProvenance = (req: Extract<HeatmapWorkerRequest, { type: 'provenance' }>) => {
+    if (cancelledJobs.has(req.jobId)) {
+        post({ type: 'cancelled', jobId: req.jobId });
+        return;
+    }
+    if (!engine || !engineParams || engineKey !== req.engineKey) throw new Error('Heatmap engine has changed');
+    const grid = engine.getResult().grid;
+    const column = grid.times.subarray(0, grid.length).indexOf(req.time);
+    const row = priceToRow(grid, req.price);
+    const provenance = column !== -1 && isFinite(row)
+        ? traceCellProvenance(grid, engineHistory, engineParams.leverageTiers, engineParams.options, column, row)
+        : null;
+    post({ type: 'provenance', jobId: req.jobId, provenance });
+};
+
+ctx.onmessage = (e: MessageEvent<HeatmapWorkerRequest>) => {
+    const req = e.data;
+
+    if (req.type === 'cancel') {
+        cancelledJobs.add(req.jobId);
+        return;
+    }
+
+    // Loads only touch the network, so they run alongside queued heatmap jobs
+    const job = req.type === 'load'
+        ? runLoad(req)
+        : queue.then(() => req.type === 'compute' ? runCompute(req) : runProvenance(req));
+
+    const settled = job
+        .catch(error => {
+            // A compute that threw may have left the engine half-advanced; start fresh next time
+            if (req.type === 'compute') {
+                engine = null;
+                engineCandles = [];
+                engineHistory = [];
+            }
+            console.error("Heatmap worker job failed:", error);
+            post({ type: 'error', jobId: req.jobId, message: String(error) });
+        })
+        .finally(() => {
+            cancelledJobs.delete(req.jobId);
+        });
+
+    if (req.type !== 'load') queue = settled;
+};